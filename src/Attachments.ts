@@ -0,0 +1,264 @@
+import type { Attachment } from 'discord.js';
+import { ValidationError } from './CustomErrors';
+
+export interface AttachmentConstraints {
+  /**
+   * The content types the attachment can have, e.g. `image/png`. A type can
+   * end with `/*` to allow every subtype, e.g. `image/*`
+   */
+  readonly contentTypes?: ReadonlyArray<string>;
+  /**
+   * The file extensions the attachment can have, e.g. `.csv`
+   */
+  readonly extensions?: ReadonlyArray<string>;
+  /**
+   * The maximum size of the attachment in bytes
+   */
+  readonly maxSize?: number;
+  /**
+   * Limits for the dimensions of the attachment in pixels. If any of these
+   * are set the attachment has to be an image or video.
+   */
+  readonly minWidth?: number;
+  readonly maxWidth?: number;
+  readonly minHeight?: number;
+  readonly maxHeight?: number;
+}
+
+/**
+ * Checks an attachment against the constraints on its option
+ *
+ * @param name The name of the option, used in the error message
+ * @returns What's wrong with the attachment, or nothing if it's valid
+ */
+export function checkAttachmentConstraints(
+  name: string,
+  attachment: Attachment,
+  constraints: AttachmentConstraints
+) {
+  const {
+    contentTypes,
+    extensions,
+    maxSize,
+    minWidth,
+    maxWidth,
+    minHeight,
+    maxHeight,
+  } = constraints;
+  if (
+    contentTypes &&
+    !contentTypes.some((type) => matchesType(attachment, type))
+  )
+    return `\`${name}\` must be one of these file types: ${contentTypes.join(
+      ', '
+    )}.`;
+  if (extensions) {
+    const fileName = attachment.name.toLowerCase();
+    if (
+      !extensions.some((extension) =>
+        fileName.endsWith(
+          extension.startsWith('.')
+            ? extension.toLowerCase()
+            : `.${extension.toLowerCase()}`
+        )
+      )
+    )
+      return `\`${name}\` must have one of these extensions: ${extensions.join(
+        ', '
+      )}.`;
+  }
+  if (maxSize !== undefined && attachment.size > maxSize)
+    return `\`${name}\` must be at most ${formatBytes(maxSize)}.`;
+  if (
+    minWidth !== undefined ||
+    maxWidth !== undefined ||
+    minHeight !== undefined ||
+    maxHeight !== undefined
+  ) {
+    const { width, height } = attachment;
+    if (width === null || height === null)
+      return `\`${name}\` must be an image or video.`;
+    if (minWidth !== undefined && width < minWidth)
+      return `\`${name}\` must be at least ${minWidth} pixels wide.`;
+    if (maxWidth !== undefined && width > maxWidth)
+      return `\`${name}\` must be at most ${maxWidth} pixels wide.`;
+    if (minHeight !== undefined && height < minHeight)
+      return `\`${name}\` must be at least ${minHeight} pixels tall.`;
+    if (maxHeight !== undefined && height > maxHeight)
+      return `\`${name}\` must be at most ${maxHeight} pixels tall.`;
+  }
+  return undefined;
+}
+
+function matchesType(attachment: Attachment, type: string) {
+  // Discord adds parameters like `; charset=utf-8` to some types
+  const contentType = attachment.contentType
+    ?.split(';')[0]
+    .trim()
+    .toLowerCase();
+  if (!contentType) return false;
+  const expected = type.toLowerCase();
+  if (expected.endsWith('/*'))
+    return contentType.startsWith(expected.slice(0, -1));
+  return contentType === expected;
+}
+
+function formatBytes(bytes: number) {
+  if (bytes >= 1024 * 1024) return `${+(bytes / 1024 / 1024).toFixed(2)} MB`;
+  if (bytes >= 1024) return `${+(bytes / 1024).toFixed(2)} KB`;
+  return `${bytes} bytes`;
+}
+
+export interface DownloadOptions {
+  /**
+   * The largest attachment to download in bytes, defaults to 1 MB
+   */
+  maxBytes?: number;
+}
+
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+
+async function downloadAttachment(
+  attachment: Attachment,
+  { maxBytes = DEFAULT_MAX_BYTES }: DownloadOptions
+) {
+  const tooLarge = new ValidationError(
+    `${attachment.name} must be at most ${formatBytes(maxBytes)}.`
+  );
+  if (attachment.size > maxBytes) throw tooLarge;
+  const response = await fetch(attachment.url);
+  if (!response.ok)
+    throw new Error(
+      `Failed to download attachment ${attachment.name}: ${response.status} ${response.statusText}`
+    );
+  if (!response.body) return '';
+  // The reported size could be wrong, so also stop reading once the download
+  // passes the limit
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw tooLarge;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * A transformer that downloads the attachment as text
+ */
+export function attachmentAsText(options: DownloadOptions = {}) {
+  return (attachment: Attachment) => downloadAttachment(attachment, options);
+}
+
+/**
+ * A transformer that downloads the attachment and parses it as JSON
+ *
+ * @param validate Checks the parsed value, throw a {@link ValidationError} if it's invalid
+ */
+export function attachmentAsJson<T = unknown>(
+  validate?: (value: unknown) => T,
+  options: DownloadOptions = {}
+) {
+  return async (attachment: Attachment): Promise<T> => {
+    const text = await downloadAttachment(attachment, options);
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new ValidationError(`${attachment.name} isn't valid JSON.`);
+    }
+    return validate ? validate(value) : (value as T);
+  };
+}
+
+export interface CsvOptions extends DownloadOptions {
+  /**
+   * The character between values, defaults to `,`
+   */
+  delimiter?: string;
+  /**
+   * Whether the first row has the column names. If this is true each row is
+   * turned into an object keyed by the column names.
+   */
+  header?: boolean;
+}
+
+/**
+ * A transformer that downloads the attachment and parses it as CSV
+ */
+export function attachmentAsCsv(
+  options: CsvOptions & { header: true }
+): (attachment: Attachment) => Promise<Record<string, string>[]>;
+export function attachmentAsCsv(
+  options?: CsvOptions
+): (attachment: Attachment) => Promise<string[][]>;
+export function attachmentAsCsv(options: CsvOptions = {}) {
+  return async (attachment: Attachment) => {
+    const rows = parseCsv(
+      await downloadAttachment(attachment, options),
+      options.delimiter ?? ','
+    );
+    if (!options.header) return rows;
+    const [columns = [], ...data] = rows;
+    return data.map((row) =>
+      Object.fromEntries(columns.map((column, i) => [column, row[i] ?? '']))
+    );
+  };
+}
+
+/**
+ * Parses CSV text, values can be quoted with `"` and quotes in quoted values
+ * are escaped by doubling them
+ */
+export function parseCsv(text: string, delimiter = ',') {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(value);
+      value = '';
+      i += delimiter.length - 1;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  // Don't add an empty row for a trailing newline
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows;
+}
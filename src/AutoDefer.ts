@@ -0,0 +1,133 @@
+import {
+  CommandInteraction,
+  InteractionReplyOptions,
+  MessageComponentInteraction,
+  MessagePayload,
+  ModalSubmitInteraction,
+} from 'discord.js';
+
+export interface AutoDeferOptions {
+  /**
+   * How long (in ms) to wait for the handler to respond before deferring.
+   * Defaults to 2 seconds, Discord gives up after 3.
+   */
+  threshold?: number;
+  /**
+   * Whether the deferred reply is only visible to the user, this isn't used
+   * for page components since those defer the update instead. If the handler
+   * replies after the deferral its reply keeps this visibility, whatever it
+   * asks for.
+   */
+  ephemeral?: boolean;
+}
+
+export type AutoDeferSetting = boolean | AutoDeferOptions;
+
+type DeferrableInteraction =
+  | CommandInteraction
+  | MessageComponentInteraction
+  | ModalSubmitInteraction;
+
+type ReplyOptions = string | MessagePayload | InteractionReplyOptions;
+
+// The methods that get wrapped, without the overloads that don't survive
+// being reassigned
+interface Acknowledgeable {
+  replied: boolean;
+  deferred: boolean;
+  reply(options: ReplyOptions): Promise<unknown>;
+  deferReply(options?: { ephemeral?: boolean }): Promise<unknown>;
+  editReply(options: ReplyOptions): Promise<unknown>;
+  followUp(options: ReplyOptions): Promise<unknown>;
+  update?(options: ReplyOptions): Promise<unknown>;
+  deferUpdate?(): Promise<unknown>;
+  showModal?(modal: unknown): Promise<unknown>;
+}
+
+const DEFAULT_THRESHOLD = 2000;
+
+/**
+ * Defers the interaction if it hasn't been acknowledged once the threshold
+ * passes. After that `reply` edits the deferred reply instead, and for
+ * `update` mode `update` edits the message and `reply` sends a follow up.
+ * The visibility of the reply is fixed once it's deferred, so a later reply
+ * can't change whether it's ephemeral.
+ *
+ * @param mode Whether to defer with `deferReply` or `deferUpdate`
+ * @returns A function that stops the timer, call this once the handler is done
+ */
+export function enableAutoDefer(
+  interaction: DeferrableInteraction,
+  setting: AutoDeferSetting | undefined,
+  mode: 'reply' | 'update'
+): () => void {
+  if (!setting) return () => undefined;
+  const { threshold = DEFAULT_THRESHOLD, ephemeral = false } =
+    setting === true ? {} : setting;
+  const target = interaction as unknown as Acknowledgeable;
+
+  // Set as soon as the handler starts responding, `replied` and `deferred`
+  // are only set once Discord confirms the response
+  let acknowledging = false;
+  let deferring: Promise<unknown> | undefined;
+  const timer = setTimeout(() => {
+    if (acknowledging || interaction.replied || interaction.deferred) return;
+    acknowledging = true;
+    deferring = (
+      mode === 'update' && target.deferUpdate
+        ? target.deferUpdate()
+        : target.deferReply({ ephemeral })
+    ).catch(() => {
+      // The handler's own reply will fail and report the problem
+    });
+  }, threshold);
+  const stop = () => {
+    acknowledging = true;
+    clearTimeout(timer);
+  };
+
+  const reply = target.reply.bind(interaction);
+  target.reply = async (options) => {
+    if (!deferring) {
+      stop();
+      return reply(options);
+    }
+    await deferring;
+    if (!interaction.deferred || interaction.replied) return reply(options);
+    if (mode === 'update') return target.followUp(options);
+    return target.editReply(options);
+  };
+  const deferReply = target.deferReply.bind(interaction);
+  target.deferReply = async (options) => {
+    if (deferring) return deferring;
+    stop();
+    return deferReply(options);
+  };
+  if (target.showModal) {
+    const showModal = target.showModal.bind(interaction);
+    target.showModal = async (modal) => {
+      stop();
+      return showModal(modal);
+    };
+  }
+  if (mode === 'update' && target.update && target.deferUpdate) {
+    const update = target.update.bind(interaction);
+    target.update = async (options) => {
+      if (!deferring) {
+        stop();
+        return update(options);
+      }
+      await deferring;
+      if (!interaction.deferred) return update(options);
+      return target.editReply(options);
+    };
+    const deferUpdate = target.deferUpdate.bind(interaction);
+    target.deferUpdate = async () => {
+      if (deferring) return deferring;
+      stop();
+      return deferUpdate();
+    };
+  }
+
+  return () => clearTimeout(timer);
+}
@@ -0,0 +1,271 @@
+import type {
+  ApplicationCommandOptionChoiceData,
+  AutocompleteInteraction,
+} from 'discord.js';
+import { MAX_CHOICES } from './CommandValidation';
+import type { MaybePromise } from './utilityTypes';
+
+/**
+ * A choice to show the user, strings and numbers are used as both the name
+ * and the value
+ */
+export type AutocompleteChoice =
+  | ApplicationCommandOptionChoiceData<string | number>
+  | string
+  | number;
+
+/**
+ * What autocomplete handlers can return. If they return choices and haven't
+ * responded themselves, the client responds with the choices.
+ */
+export type AutocompleteResult = readonly AutocompleteChoice[] | void;
+
+// Discord's limit for the names and values of autocomplete choices
+const MAX_LENGTH = 100;
+
+function truncate(text: string) {
+  return text.length > MAX_LENGTH ? text.slice(0, MAX_LENGTH - 1) + '…' : text;
+}
+
+/**
+ * Turns choices into what Discord accepts, keeping the first 25 and cutting
+ * names down to 100 characters
+ */
+export function normalizeChoices(
+  choices: readonly AutocompleteChoice[]
+): ApplicationCommandOptionChoiceData<string | number>[] {
+  return (
+    choices
+      .map((choice) =>
+        typeof choice === 'object'
+          ? choice
+          : { name: `${choice}`, value: choice }
+      )
+      // Discord rejects the whole response if a value is too long, and cutting
+      // it down would change what the command gets
+      .filter(
+        (choice) =>
+          typeof choice.value !== 'string' || choice.value.length <= MAX_LENGTH
+      )
+      .slice(0, MAX_CHOICES)
+      .map((choice) => ({
+        ...choice,
+        name: truncate(choice.name),
+        nameLocalizations: choice.nameLocalizations
+          ? Object.fromEntries(
+              Object.entries(choice.nameLocalizations).map(([locale, name]) => [
+                locale,
+                name && truncate(name),
+              ])
+            )
+          : undefined,
+      }))
+  );
+}
+
+/**
+ * Responds with what an autocomplete handler returned, unless it already
+ * responded
+ */
+export async function respondWithChoices(
+  interaction: AutocompleteInteraction,
+  result: AutocompleteResult
+) {
+  if (!Array.isArray(result) || interaction.responded) return;
+  await interaction.respond(normalizeChoices(result));
+}
+
+/**
+ * - `fuzzy`: The text has to contain the characters of the query in order
+ * - `prefix`: The text or one of its words has to start with the query
+ * - `none`: Everything matches, use this if the source already filtered
+ */
+export type MatchMode = 'fuzzy' | 'prefix' | 'none';
+
+/**
+ * Scores how well the text matches the query, higher is better
+ *
+ * @returns The score, or nothing if the text doesn't match
+ */
+export function matchScore(
+  query: string,
+  text: string,
+  mode: MatchMode = 'fuzzy'
+): number | undefined {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (mode === 'none' || q === '') return 0;
+  if (t === q) return 4;
+  if (t.startsWith(q)) return 3;
+  // A later word can start with the query too
+  const wordStart = t.search(
+    new RegExp(`[^\\p{L}\\p{N}]${escapeRegex(q)}`, 'u')
+  );
+  if (wordStart !== -1) return 2;
+  if (mode === 'prefix') return undefined;
+  if (t.includes(q)) return 1;
+  // Look for the characters in order, fewer characters in between is better
+  let position = -1;
+  let first = -1;
+  for (const char of q) {
+    position = t.indexOf(char, position + 1);
+    if (position === -1) return undefined;
+    if (first === -1) first = position;
+  }
+  const gaps = position - first + 1 - q.length;
+  return 1 / (1 + gaps);
+}
+
+function escapeRegex(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export interface FilterOptions<T> {
+  /**
+   * How to match the query, defaults to `fuzzy`
+   */
+  match?: MatchMode;
+  /**
+   * The text to match against, defaults to the item itself or the name of a
+   * choice
+   */
+  getText?: (item: T) => string;
+}
+
+/**
+ * Keeps the items that match the query, best matches first. Items that match
+ * equally well keep their order, so with `none` nothing is reordered.
+ */
+export function filterByQuery<T>(
+  items: readonly T[],
+  query: string,
+  options: FilterOptions<T> = {}
+) {
+  const { match = 'fuzzy', getText = defaultText } = options;
+  return items
+    .map((item) => ({ item, score: matchScore(query, getText(item), match) }))
+    .filter(
+      (entry): entry is { item: T; score: number } => entry.score !== undefined
+    )
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item);
+}
+
+function defaultText(item: unknown) {
+  if (typeof item === 'object' && item !== null && 'name' in item)
+    return String(item.name);
+  return String(item);
+}
+
+/**
+ * Keeps values for a while, keyed by the user, guild, command, option, and
+ * what they've typed. This stops expensive lookups from running on every
+ * keystroke. Don't cache choices that depend on the values of other options,
+ * since those aren't part of the key.
+ */
+export class AutocompleteCache<T> {
+  private entries = new Map<string, { value: T; expires: number }>();
+
+  /**
+   * @param ttl How long (in ms) to keep values
+   */
+  constructor(private ttl: number) {}
+
+  /**
+   * Returns the cached value for this query, or loads and caches it
+   */
+  async wrap(
+    interaction: AutocompleteInteraction,
+    load: () => MaybePromise<T>
+  ): Promise<T> {
+    const { options } = interaction;
+    const key = JSON.stringify([
+      interaction.user.id,
+      interaction.guildId,
+      interaction.commandName,
+      options.getSubcommandGroup(false),
+      options.getSubcommand(false),
+      options.getFocused(true).name,
+      options.getFocused(),
+    ]);
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expires > now) return cached.value;
+    const value = await load();
+    this.prune(now);
+    this.entries.set(key, { value, expires: now + this.ttl });
+    return value;
+  }
+
+  /**
+   * Removes every cached value
+   */
+  clear() {
+    this.entries.clear();
+  }
+
+  private prune(now: number) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expires <= now) this.entries.delete(key);
+    }
+  }
+}
+
+export interface AutocompleteSourceOptions<T> extends FilterOptions<T> {
+  /**
+   * Turns an item into a choice, defaults to the item itself
+   */
+  toChoice?: (item: T) => AutocompleteChoice;
+  /**
+   * How long (in ms) to cache the choices for each user and query, they
+   * aren't cached if this isn't set. Leave this out if the choices depend on
+   * other options, see {@link AutocompleteCache}.
+   */
+  cacheTtl?: number;
+}
+
+/**
+ * Builds an autocomplete handler that filters items by what the user typed.
+ * The items can be a list, or a function that loads them:
+ *
+ * ```ts
+ * onAutocomplete: autocompleteFrom(
+ *   (query) => db.tags.search(query),
+ *   { match: 'none', toChoice: (tag) => ({ name: tag.title, value: tag.id }), cacheTtl: 30_000 }
+ * )
+ * ```
+ */
+export function autocompleteFrom<T>(
+  source:
+    | readonly T[]
+    | ((
+        query: string,
+        interaction: AutocompleteInteraction
+      ) => MaybePromise<readonly T[]>),
+  options: AutocompleteSourceOptions<T> = {}
+) {
+  const cache =
+    options.cacheTtl !== undefined
+      ? new AutocompleteCache<AutocompleteChoice[]>(options.cacheTtl)
+      : undefined;
+  const toChoice =
+    options.toChoice ?? ((item: T) => item as unknown as AutocompleteChoice);
+
+  const load = async (
+    interaction: AutocompleteInteraction,
+    query: string
+  ): Promise<AutocompleteChoice[]> => {
+    const items =
+      typeof source === 'function' ? await source(query, interaction) : source;
+    return filterByQuery(items, query, options)
+      .slice(0, MAX_CHOICES)
+      .map(toChoice);
+  };
+
+  return (interaction: AutocompleteInteraction, value: string | number) => {
+    const query = `${value}`;
+    return cache
+      ? cache.wrap(interaction, () => load(interaction, query))
+      : load(interaction, query);
+  };
+}
@@ -0,0 +1,60 @@
+import {
+  CommandFolderDiff,
+  Logger,
+  SlashasaurusClient,
+} from './SlashasaurusClient';
+
+export interface DeployCommandsFromOptions {
+  /**
+   * The folder containing the `chat/`, `user/` and `message/` folders
+   */
+  folderPath: string;
+  applicationId: string;
+  token: string;
+  /**
+   * The guild to deploy the commands to, if this is left out the commands will
+   * be deployed globally, along with any `guilds/<guildId>` folders
+   */
+  guildId?: string;
+  /**
+   * If this is true the registered commands will be fetched and compared, but nothing will be written
+   */
+  dryRun?: boolean;
+  logger?: Logger;
+}
+
+/**
+ * Loads a folder of commands the same way `registerCommandsFrom` does and
+ * deploys them, without needing to log a client into the gateway. This lets
+ * you deploy commands as a separate step from starting the bot.
+ *
+ * @returns The differences between the registered commands and the ones in the folder
+ */
+export async function deployCommandsFrom({
+  folderPath,
+  applicationId,
+  token,
+  guildId,
+  dryRun,
+  logger,
+}: DeployCommandsFromOptions): Promise<CommandFolderDiff> {
+  const client = new SlashasaurusClient({ intents: [] }, { logger });
+  try {
+    if (guildId) {
+      const diff = await client.registerGuildCommandsFrom(
+        folderPath,
+        guildId,
+        true,
+        token,
+        { applicationId, dryRun }
+      );
+      return { ...diff, guilds: {} };
+    }
+    return await client.registerCommandsFrom(folderPath, true, token, {
+      applicationId,
+      dryRun,
+    });
+  } finally {
+    await client.destroy();
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  ApplicationCommandType,
+  RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import {
+  CommandDiff,
+  diffCommands,
+  formatCommandDiff,
+  hasChanges,
+} from './CommandSync';
+
+export interface CommandManifest {
+  version: 1;
+  /**
+   * Every global command, sorted by type and name
+   */
+  global: RESTPostAPIApplicationCommandsJSONBody[];
+  /**
+   * Every guild command, keyed by the guild id
+   */
+  guilds: Record<string, RESTPostAPIApplicationCommandsJSONBody[]>;
+}
+
+export interface CommandManifestDiff {
+  global: CommandDiff;
+  guilds: Record<string, CommandDiff>;
+}
+
+/**
+ * Creates a manifest from lists of commands. The commands are sorted by type
+ * and name so that the manifest doesn't change based on load order.
+ *
+ * @param global The global commands
+ * @param guilds The guild commands, keyed by the guild id
+ */
+export function createCommandManifest(
+  global: RESTPostAPIApplicationCommandsJSONBody[],
+  guilds: Record<string, RESTPostAPIApplicationCommandsJSONBody[]> = {}
+): CommandManifest {
+  const sortedGuilds: CommandManifest['guilds'] = {};
+  Object.keys(guilds)
+    .sort()
+    .forEach((guildId) => {
+      sortedGuilds[guildId] = sortCommands(guilds[guildId]);
+    });
+  return {
+    version: 1,
+    global: sortCommands(global),
+    guilds: sortedGuilds,
+  };
+}
+
+/**
+ * Turns a manifest into JSON with sorted keys, this is stable so it can be
+ * committed and reviewed as a plain diff.
+ */
+export function serializeCommandManifest(manifest: CommandManifest) {
+  return JSON.stringify(sortKeys(manifest), null, 2) + '\n';
+}
+
+/**
+ * Compares a saved manifest to the current one.
+ *
+ * @param saved The manifest that was committed
+ * @param current The manifest of the commands that are currently loaded
+ */
+export function diffCommandManifests(
+  saved: CommandManifest,
+  current: CommandManifest
+): CommandManifestDiff {
+  const guilds: CommandManifestDiff['guilds'] = {};
+  const guildIds = new Set([
+    ...Object.keys(saved.guilds),
+    ...Object.keys(current.guilds),
+  ]);
+  guildIds.forEach((guildId) => {
+    guilds[guildId] = diffCommands(
+      saved.guilds[guildId] ?? [],
+      current.guilds[guildId] ?? []
+    );
+  });
+  return {
+    global: diffCommands(saved.global, current.global),
+    guilds,
+  };
+}
+
+export function manifestHasChanges(diff: CommandManifestDiff) {
+  return hasChanges(diff.global) || Object.values(diff.guilds).some(hasChanges);
+}
+
+/**
+ * Turns a manifest diff into a human readable report
+ */
+export function formatCommandManifestDiff(diff: CommandManifestDiff) {
+  const sections = [`Global commands:\n${formatCommandDiff(diff.global)}`];
+  Object.keys(diff.guilds)
+    .sort()
+    .forEach((guildId) => {
+      if (!hasChanges(diff.guilds[guildId])) return;
+      sections.push(
+        `Guild ${guildId} commands:\n${formatCommandDiff(diff.guilds[guildId])}`
+      );
+    });
+  return sections.join('\n\n');
+}
+
+function sortCommands(commands: RESTPostAPIApplicationCommandsJSONBody[]) {
+  return [...commands].sort((a, b) => {
+    const typeA = a.type ?? ApplicationCommandType.ChatInput;
+    const typeB = b.type ?? ApplicationCommandType.ChatInput;
+    if (typeA !== typeB) return typeA - typeB;
+    return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+  });
+}
+
+// Option order is meaningful to Discord, so only object keys are sorted
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    Object.keys(value)
+      .sort()
+      .forEach((key) => {
+        sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+      });
+    return sorted;
+  }
+  return value;
+}
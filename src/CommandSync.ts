@@ -0,0 +1,358 @@
+import { REST } from '@discordjs/rest';
+import {
+  APIApplicationCommand,
+  ApplicationCommandType,
+  ApplicationIntegrationType,
+  RESTPostAPIApplicationCommandsJSONBody,
+  Routes,
+} from 'discord-api-types/v10';
+
+type CommandJSON =
+  | APIApplicationCommand
+  | RESTPostAPIApplicationCommandsJSONBody;
+
+export interface CommandDiffEntry {
+  name: string;
+  type: ApplicationCommandType;
+}
+
+export interface ChangedCommandDiffEntry extends CommandDiffEntry {
+  /**
+   * The paths of every property that differs, e.g. `options[user].required`
+   */
+  changes: string[];
+}
+
+export interface CommandDiff {
+  added: CommandDiffEntry[];
+  changed: ChangedCommandDiffEntry[];
+  removed: CommandDiffEntry[];
+  unchanged: CommandDiffEntry[];
+}
+
+export interface CommandRouteOptions {
+  token: string;
+  applicationId: string;
+  /**
+   * The guild the commands are registered in, if this is left out the global commands are used
+   */
+  guildId?: string;
+}
+
+export interface SyncCommandsOptions extends CommandRouteOptions {
+  commands: RESTPostAPIApplicationCommandsJSONBody[];
+  /**
+   * If this is true the registered commands will be fetched and compared, but nothing will be written
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Fetches the currently registered commands, compares them to the given commands,
+ * and only overwrites them if something changed.
+ *
+ * @returns The differences between the registered commands and the given commands
+ */
+export async function syncCommands({
+  token,
+  applicationId,
+  guildId,
+  commands,
+  dryRun = false,
+}: SyncCommandsOptions): Promise<CommandDiff> {
+  const rest = new REST({ version: '10' }).setToken(token);
+  const route = commandsRoute(applicationId, guildId);
+
+  const existing = await fetchCommands(rest, route);
+  const diff = diffCommands(existing, commands);
+
+  if (!dryRun && hasChanges(diff)) {
+    await rest.put(route, {
+      body: commands,
+    });
+  }
+
+  return diff;
+}
+
+/**
+ * Fetches the commands that are currently registered
+ */
+export async function listCommands({
+  token,
+  applicationId,
+  guildId,
+}: CommandRouteOptions): Promise<APIApplicationCommand[]> {
+  const rest = new REST({ version: '10' }).setToken(token);
+  return fetchCommands(rest, commandsRoute(applicationId, guildId));
+}
+
+/**
+ * Deletes registered commands by name, or every command with `all: true`.
+ * Commands of different types can share a name, so a `type` is needed to
+ * delete one of them.
+ *
+ * @returns The commands that were deleted
+ */
+export async function deleteCommands({
+  token,
+  applicationId,
+  guildId,
+  ...target
+}: CommandRouteOptions &
+  (
+    | { names: string[]; type?: ApplicationCommandType; all?: false }
+    | { all: true; names?: never; type?: never }
+  )): Promise<APIApplicationCommand[]> {
+  if (!target.all && target.names.length === 0)
+    throw new Error(
+      'No command names were given, pass `all: true` to delete every command'
+    );
+  const rest = new REST({ version: '10' }).setToken(token);
+  const existing = await listCommands({ token, applicationId, guildId });
+
+  if (target.all) {
+    await rest.put(commandsRoute(applicationId, guildId), { body: [] });
+    return existing;
+  }
+
+  const { names, type } = target;
+
+  const toDelete = existing.filter(
+    (command) =>
+      names.includes(command.name) &&
+      (type === undefined || command.type === type)
+  );
+  const ambiguous = names.filter(
+    (name) =>
+      new Set(
+        toDelete
+          .filter((command) => command.name === name)
+          .map((command) => command.type)
+      ).size > 1
+  );
+  if (ambiguous.length > 0)
+    throw new Error(
+      `More than one type of command is named ${ambiguous.join(
+        ', '
+      )}, pass a type to choose which one to delete`
+    );
+  for (const command of toDelete) {
+    await rest.delete(
+      guildId
+        ? Routes.applicationGuildCommand(applicationId, guildId, command.id)
+        : Routes.applicationCommand(applicationId, command.id)
+    );
+  }
+  return toDelete;
+}
+
+export function hasChanges(diff: CommandDiff) {
+  return (
+    diff.added.length > 0 || diff.changed.length > 0 || diff.removed.length > 0
+  );
+}
+
+/**
+ * Compares two lists of commands, ignoring any properties that Discord fills
+ * in on its own (ids, versions, default values).
+ *
+ * @param existing The commands that are currently registered
+ * @param desired The commands that should be registered
+ */
+export function diffCommands(
+  existing: CommandJSON[],
+  desired: CommandJSON[]
+): CommandDiff {
+  const diff: CommandDiff = {
+    added: [],
+    changed: [],
+    removed: [],
+    unchanged: [],
+  };
+
+  const existingMap = new Map(
+    existing.map((command) => [commandKey(command), command])
+  );
+  const desiredKeys = new Set<string>();
+
+  for (const command of desired) {
+    const key = commandKey(command);
+    desiredKeys.add(key);
+    const entry = {
+      name: command.name,
+      type: command.type ?? ApplicationCommandType.ChatInput,
+    };
+    const current = existingMap.get(key);
+    if (!current) {
+      diff.added.push(entry);
+      continue;
+    }
+    const changes: string[] = [];
+    compareValues(
+      normalizeCommand(current),
+      normalizeCommand(command),
+      '',
+      changes
+    );
+    if (changes.length > 0) {
+      diff.changed.push({ ...entry, changes });
+    } else {
+      diff.unchanged.push(entry);
+    }
+  }
+
+  for (const [key, command] of existingMap) {
+    if (!desiredKeys.has(key)) {
+      diff.removed.push({
+        name: command.name,
+        type: command.type ?? ApplicationCommandType.ChatInput,
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * The name of each type of command, as they're shown in reports
+ */
+export const commandTypeNames: Record<ApplicationCommandType, string> = {
+  [ApplicationCommandType.ChatInput]: 'chat',
+  [ApplicationCommandType.User]: 'user',
+  [ApplicationCommandType.Message]: 'message',
+  [ApplicationCommandType.PrimaryEntryPoint]: 'entry point',
+};
+
+/**
+ * Turns a diff into a human readable report, one line per command
+ */
+export function formatCommandDiff(diff: CommandDiff) {
+  if (!hasChanges(diff)) return 'No changes';
+  const describe = (entry: CommandDiffEntry) =>
+    `${entry.name} (${commandTypeNames[entry.type]})`;
+  const lines: string[] = [];
+  diff.added.forEach((entry) => lines.push(`+ ${describe(entry)}`));
+  diff.changed.forEach((entry) =>
+    lines.push(`~ ${describe(entry)}: ${entry.changes.join(', ')}`)
+  );
+  diff.removed.forEach((entry) => lines.push(`- ${describe(entry)}`));
+  return lines.join('\n');
+}
+
+function commandsRoute(applicationId: string, guildId?: string) {
+  return guildId
+    ? Routes.applicationGuildCommands(applicationId, guildId)
+    : Routes.applicationCommands(applicationId);
+}
+
+// Discord leaves out localizations unless asked, which would make localized commands look changed
+async function fetchCommands(rest: REST, route: `/${string}`) {
+  return (await rest.get(route, {
+    query: new URLSearchParams({ with_localizations: 'true' }),
+  })) as APIApplicationCommand[];
+}
+
+function commandKey(command: CommandJSON) {
+  return `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+}
+
+function normalizeLocalizations(
+  localizations: Record<string, string | null> | null | undefined
+) {
+  if (!localizations || Object.keys(localizations).length === 0) return null;
+  return localizations;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function normalizeCommand(command: any) {
+  const type = command.type ?? ApplicationCommandType.ChatInput;
+  return {
+    type,
+    name: command.name,
+    name_localizations: normalizeLocalizations(command.name_localizations),
+    description:
+      type === ApplicationCommandType.ChatInput ? command.description : '',
+    description_localizations: normalizeLocalizations(
+      command.description_localizations
+    ),
+    default_member_permissions: command.default_member_permissions ?? null,
+    dm_permission: command.dm_permission ?? true,
+    nsfw: command.nsfw ?? false,
+    // Discord fills in guild installs when no integration types are given
+    integration_types: [
+      ...(command.integration_types ?? [
+        ApplicationIntegrationType.GuildInstall,
+      ]),
+    ].sort(),
+    contexts: command.contexts ? [...command.contexts].sort() : null,
+    options: normalizeOptions(command.options),
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function normalizeOptions(options: any[] | undefined): unknown[] {
+  return (options ?? []).map((option) => ({
+    type: option.type,
+    name: option.name,
+    name_localizations: normalizeLocalizations(option.name_localizations),
+    description: option.description,
+    description_localizations: normalizeLocalizations(
+      option.description_localizations
+    ),
+    required: option.required ?? false,
+    autocomplete: option.autocomplete ?? false,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    choices: (option.choices ?? []).map((choice: any) => ({
+      name: choice.name,
+      name_localizations: normalizeLocalizations(choice.name_localizations),
+      value: choice.value,
+    })),
+    channel_types: [...(option.channel_types ?? [])].sort(),
+    min_value: option.min_value ?? null,
+    max_value: option.max_value ?? null,
+    min_length: option.min_length ?? null,
+    max_length: option.max_length ?? null,
+    options: normalizeOptions(option.options),
+  }));
+}
+
+function compareValues(
+  a: unknown,
+  b: unknown,
+  path: string,
+  changes: string[]
+) {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) {
+      changes.push(path);
+      return;
+    }
+    a.forEach((item, index) => {
+      const label =
+        item && typeof item === 'object' && 'name' in item ? item.name : index;
+      compareValues(item, b[index], `${path}[${label}]`, changes);
+    });
+    return;
+  }
+  if (
+    a &&
+    b &&
+    typeof a === 'object' &&
+    typeof b === 'object' &&
+    !Array.isArray(a) &&
+    !Array.isArray(b)
+  ) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    keys.forEach((key) => {
+      compareValues(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+        path ? `${path}.${key}` : key,
+        changes
+      );
+    });
+    return;
+  }
+  if (a !== b) changes.push(path);
+}
@@ -0,0 +1,290 @@
+import type {
+  LocalizationMap,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { CommandDefinitionError, CommandDefinitionIssue } from './CustomErrors';
+import { ApplicationCommandOptionData } from './OptionTypes';
+
+// These limits come from https://discord.com/developers/docs/interactions/application-commands
+const NAME_REGEX = /^[\p{L}\p{N}\p{sc=Devanagari}\p{sc=Thai}_-]{1,32}$/u;
+const MAX_DESCRIPTION_LENGTH = 100;
+const MAX_OPTIONS = 25;
+/**
+ * How many choices an option, or an autocomplete response, can have
+ */
+export const MAX_CHOICES = 25;
+const MAX_CHOICE_NAME_LENGTH = 100;
+const MAX_CHOICE_VALUE_LENGTH = 100;
+const MAX_CONTEXT_MENU_NAME_LENGTH = 32;
+const MAX_COMMAND_CHARACTERS = 8000;
+
+interface ChatCommandDefinition {
+  name: string;
+  nameLocalizations?: LocalizationMap;
+  description: string;
+  descriptionLocalizations?: LocalizationMap;
+  options: readonly ApplicationCommandOptionData[];
+}
+
+interface CommandGroupDefinition {
+  nameLocalizations?: LocalizationMap;
+  description: string;
+  descriptionLocalizations?: LocalizationMap;
+}
+
+interface ContextMenuDefinition {
+  name: string;
+  nameLocalizations?: LocalizationMap;
+}
+
+/**
+ * Checks a chat command or subcommand against Discord's rules for names,
+ * descriptions, options, and choices.
+ */
+export function validateChatCommandInfo(
+  info: ChatCommandDefinition
+): CommandDefinitionIssue[] {
+  const issues: CommandDefinitionIssue[] = [];
+  const command = info.name;
+  checkName(info.name, info.nameLocalizations, (message) =>
+    issues.push({ command, message })
+  );
+  checkDescription(info.description, info.descriptionLocalizations, (message) =>
+    issues.push({ command, message })
+  );
+
+  if (info.options.length > MAX_OPTIONS)
+    issues.push({
+      command,
+      message: `Commands can have at most ${MAX_OPTIONS} options, found ${info.options.length}`,
+    });
+
+  const seenNames = new Set<string>();
+  let foundOptional = false;
+  info.options.forEach((option) => {
+    const report = (message: string) =>
+      issues.push({ command, option: option.name, message });
+
+    checkName(option.name, option.nameLocalizations, report);
+    checkDescription(
+      option.description,
+      option.descriptionLocalizations,
+      report
+    );
+
+    if (seenNames.has(option.name)) report('Option names must be unique');
+    seenNames.add(option.name);
+
+    if (option.required) {
+      if (foundOptional)
+        report('Required options must come before optional options');
+      if (option.default !== undefined)
+        report("Required options can't have a default value");
+    } else {
+      foundOptional = true;
+    }
+
+    if ('choices' in option && option.choices) {
+      if (option.choices.length > MAX_CHOICES)
+        report(
+          `Options can have at most ${MAX_CHOICES} choices, found ${option.choices.length}`
+        );
+      option.choices.forEach((choice) => {
+        withLocalizations(choice.name, choice.nameLocalizations).forEach(
+          (name) => {
+            if (
+              !name ||
+              name.length < 1 ||
+              name.length > MAX_CHOICE_NAME_LENGTH
+            )
+              report(
+                `Choice name "${name}" must be between 1 and ${MAX_CHOICE_NAME_LENGTH} characters`
+              );
+          }
+        );
+        if (
+          typeof choice.value === 'string' &&
+          choice.value.length > MAX_CHOICE_VALUE_LENGTH
+        )
+          report(
+            `Choice value "${choice.value}" must be at most ${MAX_CHOICE_VALUE_LENGTH} characters`
+          );
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Checks the metadata of a command with subcommands, or a subcommand group.
+ *
+ * @param name The name of the command or group
+ * @param metadata The info from the `_meta` file
+ * @param childCount The number of subcommands and subcommand groups
+ */
+export function validateCommandGroupInfo(
+  name: string,
+  metadata: CommandGroupDefinition,
+  childCount: number
+): CommandDefinitionIssue[] {
+  const issues: CommandDefinitionIssue[] = [];
+  const report = (message: string) => issues.push({ command: name, message });
+  checkName(name, metadata.nameLocalizations, report);
+  checkDescription(
+    metadata.description,
+    metadata.descriptionLocalizations,
+    report
+  );
+  if (childCount > MAX_OPTIONS)
+    report(
+      `Commands can have at most ${MAX_OPTIONS} subcommands and groups, found ${childCount}`
+    );
+  return issues;
+}
+
+/**
+ * Checks a user or message command against Discord's rules for names.
+ */
+export function validateContextMenuInfo(
+  info: ContextMenuDefinition
+): CommandDefinitionIssue[] {
+  const issues: CommandDefinitionIssue[] = [];
+  withLocalizations(info.name, info.nameLocalizations).forEach((name) => {
+    if (!name || name.length < 1 || name.length > MAX_CONTEXT_MENU_NAME_LENGTH)
+      issues.push({
+        command: info.name,
+        message: `Name "${name}" must be between 1 and ${MAX_CONTEXT_MENU_NAME_LENGTH} characters`,
+      });
+  });
+  return issues;
+}
+
+/**
+ * Checks that a top level chat command fits in Discord's character budget.
+ */
+export function validateCommandSize(
+  command: RESTPostAPIChatInputApplicationCommandsJSONBody
+): CommandDefinitionIssue[] {
+  const count = getCommandCharacterCount(command);
+  if (count <= MAX_COMMAND_CHARACTERS) return [];
+  return [
+    {
+      command: command.name,
+      message: `Commands can use at most ${MAX_COMMAND_CHARACTERS} characters across all names, descriptions, and choices, found ${count}`,
+    },
+  ];
+}
+
+/**
+ * Counts the characters of a command the same way Discord does. This is the
+ * sum of every name, description, and choice value, including the options,
+ * subcommands, and choices. When a field is localized, only the longest
+ * version of it is counted.
+ */
+export function getCommandCharacterCount(command: {
+  name: string;
+  name_localizations?: LocalizationMap | null;
+  description?: string;
+  description_localizations?: LocalizationMap | null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  options?: any[];
+}): number {
+  let count =
+    longest(command.name, command.name_localizations) +
+    longest(command.description ?? '', command.description_localizations);
+  command.options?.forEach((option) => {
+    count += getCommandCharacterCount(option);
+    option.choices?.forEach(
+      (choice: {
+        name: string;
+        name_localizations?: LocalizationMap | null;
+        value: string | number;
+      }) => {
+        count +=
+          longest(choice.name, choice.name_localizations) +
+          choice.value.toString().length;
+      }
+    );
+  });
+  return count;
+}
+
+/**
+ * Throws a {@link CommandDefinitionError} if there are any issues
+ */
+export function assertNoDefinitionIssues(issues: CommandDefinitionIssue[]) {
+  if (issues.length > 0) throw new CommandDefinitionError(issues);
+}
+
+/**
+ * Runs `build`, and if it throws a {@link CommandDefinitionError} the issues
+ * are added to `issues` with the given file instead.
+ */
+export function collectDefinitionIssues<T>(
+  file: string,
+  issues: CommandDefinitionIssue[],
+  build: () => T
+): T | undefined {
+  try {
+    return build();
+  } catch (e) {
+    if (e instanceof CommandDefinitionError) {
+      issues.push(...e.issues.map((issue) => ({ file, ...issue })));
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+function checkName(
+  name: string,
+  localizations: LocalizationMap | null | undefined,
+  report: (message: string) => void
+) {
+  withLocalizations(name, localizations).forEach((value) => {
+    if (!NAME_REGEX.test(value))
+      report(
+        `Name "${value}" must be 1-32 characters and only contain letters, numbers, "-" and "_"`
+      );
+    else if (value !== value.toLowerCase())
+      report(`Name "${value}" must be lowercase`);
+  });
+}
+
+function checkDescription(
+  description: string,
+  localizations: LocalizationMap | null | undefined,
+  report: (message: string) => void
+) {
+  withLocalizations(description, localizations).forEach((value) => {
+    if (
+      typeof value !== 'string' ||
+      value.length < 1 ||
+      value.length > MAX_DESCRIPTION_LENGTH
+    )
+      report(
+        `Description "${value}" must be between 1 and ${MAX_DESCRIPTION_LENGTH} characters`
+      );
+  });
+}
+
+function withLocalizations(
+  value: string,
+  localizations: LocalizationMap | null | undefined
+) {
+  return [
+    value,
+    ...Object.values(localizations ?? {}).filter(
+      (localized): localized is string => typeof localized === 'string'
+    ),
+  ];
+}
+
+function longest(value: string, localizations?: LocalizationMap | null) {
+  return Math.max(
+    ...withLocalizations(value, localizations).map(
+      (localized) => localized.length
+    )
+  );
+}
@@ -2,7 +2,15 @@ import type {
   MessageContextMenuCommandInteraction,
   UserContextMenuCommandInteraction,
 } from 'discord.js';
-import type { LocalizationMap } from 'discord-api-types/v10';
+import type {
+  ApplicationIntegrationType,
+  InteractionContextType,
+  LocalizationMap,
+} from 'discord-api-types/v10';
+import type { AutoDeferSetting } from './AutoDefer';
+import type { CooldownOptions } from './Cooldowns';
+import type { CommandContext } from './MiddlewarePipeline';
+import type { Precondition } from './Preconditions';
 import { SlashasaurusClient } from './SlashasaurusClient';
 
 type ContextCommandOptions<T extends 'MESSAGE' | 'USER'> = {
@@ -10,18 +18,44 @@ type ContextCommandOptions<T extends 'MESSAGE' | 'USER'> = {
   nameLocalizations?: LocalizationMap;
   type: T;
   defaultMemberPermissions?: string | number | bigint;
+  /**
+   * @deprecated Use `contexts` instead
+   */
   dmPermission?: boolean;
+  /**
+   * Where the app has to be installed for this command to be available
+   */
+  integrationTypes?: ApplicationIntegrationType[];
+  /**
+   * Where this command can be used
+   */
+  contexts?: InteractionContextType[];
+  /**
+   * Stops this command from being used again until the cooldown is over
+   */
+  cooldown?: CooldownOptions;
+  /**
+   * Checks that have to pass before this command runs
+   */
+  preconditions?: Precondition[];
+  /**
+   * Defers the reply if the command takes too long to respond, this
+   * overrides the client's `autoDefer` setting
+   */
+  autoDefer?: AutoDeferSetting;
 };
 
 export type ContextMenuHandlerType<T extends 'MESSAGE' | 'USER'> =
   T extends 'MESSAGE'
     ? (
         interaction: MessageContextMenuCommandInteraction,
-        client: SlashasaurusClient
+        client: SlashasaurusClient,
+        ctx: Partial<CommandContext>
       ) => void
     : (
         interaction: UserContextMenuCommandInteraction,
-        client: SlashasaurusClient
+        client: SlashasaurusClient,
+        ctx: Partial<CommandContext>
       ) => void;
 
 export function isMessageCommand(thing: unknown): thing is MessageCommand {
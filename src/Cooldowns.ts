@@ -0,0 +1,89 @@
+import type { CommandInteraction, InteractionReplyOptions } from 'discord.js';
+import { MaybePromise } from './utilityTypes';
+
+/**
+ * Who shares a cooldown. `guild` falls back to the channel in DMs.
+ */
+export type CooldownScope = 'user' | 'channel' | 'guild' | 'global';
+
+export interface CooldownOptions {
+  /**
+   * How long (in ms) the command can't be used for after it was run
+   */
+  duration: number;
+  /**
+   * Who shares the cooldown, defaults to `user`
+   */
+  scope?: CooldownScope;
+}
+
+export interface CooldownStore {
+  /**
+   * Starts a cooldown for the key if there isn't one running already. This
+   * needs to be atomic if the store is shared between processes.
+   *
+   * @param key The key for the command and scope
+   * @param duration How long (in ms) the cooldown lasts
+   * @returns The time left (in ms) on the running cooldown, or 0 if a new cooldown was started
+   */
+  acquire(key: string, duration: number): MaybePromise<number>;
+}
+
+export type CooldownFormatter = (
+  remaining: number,
+  interaction: CommandInteraction
+) => MaybePromise<string | InteractionReplyOptions>;
+
+/**
+ * Keeps cooldowns in memory, this is the default store. Use your own store if
+ * the bot is sharded across processes.
+ */
+export class MemoryCooldownStore implements CooldownStore {
+  private expirations = new Map<string, number>();
+
+  acquire(key: string, duration: number) {
+    const now = Date.now();
+    const expiresAt = this.expirations.get(key);
+    if (expiresAt !== undefined && expiresAt > now) return expiresAt - now;
+    this.expirations.set(key, now + duration);
+    setTimeout(() => {
+      if (this.expirations.get(key) === now + duration)
+        this.expirations.delete(key);
+    }, duration).unref();
+    return 0;
+  }
+}
+
+/**
+ * Replies with when the command can be used again, only visible to the user
+ */
+export const defaultCooldownFormatter: CooldownFormatter = (remaining) => ({
+  content: `This command is on cooldown, you can use it again <t:${Math.ceil(
+    (Date.now() + remaining) / 1000
+  )}:R>.`,
+  ephemeral: true,
+});
+
+/**
+ * Builds the key a cooldown is stored under
+ *
+ * @param commandKey A key unique to the command, e.g. `chat:ping`
+ */
+export function getCooldownKey(
+  commandKey: string,
+  scope: CooldownScope,
+  interaction: CommandInteraction
+) {
+  switch (scope) {
+    case 'user':
+      return `${commandKey}:user:${interaction.user.id}`;
+    case 'channel':
+      return `${commandKey}:channel:${interaction.channelId}`;
+    case 'guild':
+      return interaction.guildId
+        ? `${commandKey}:guild:${interaction.guildId}`
+        : `${commandKey}:channel:${interaction.channelId}`;
+    case 'global':
+      return `${commandKey}:global`;
+  }
+}
@@ -3,3 +3,49 @@ export class ValidationError extends Error {
     super(message);
   }
 }
+
+export interface OptionValidationIssue {
+  /**
+   * The name of the option that failed validation
+   */
+  option: string;
+  /**
+   * The value the user passed for the option
+   */
+  value: unknown;
+  message: string;
+}
+
+export interface CommandDefinitionIssue {
+  /**
+   * The file the command was loaded from, this is only set for commands
+   * loaded from a folder
+   */
+  file?: string;
+  /**
+   * The name of the command, subcommand or group with the issue
+   */
+  command: string;
+  /**
+   * The name of the option with the issue, if the issue is in an option
+   */
+  option?: string;
+  message: string;
+}
+
+export class CommandDefinitionError extends Error {
+  constructor(public readonly issues: CommandDefinitionIssue[]) {
+    super(
+      `Found ${issues.length} problem${
+        issues.length === 1 ? '' : 's'
+      } in command definitions:\n${issues
+        .map(
+          (issue) =>
+            `  ${issue.file ? `${issue.file} ` : ''}(${issue.command}${
+              issue.option ? `, option ${issue.option}` : ''
+            }): ${issue.message}`
+        )
+        .join('\n')}`
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import type { LocalizationMap } from 'discord-api-types/v10';
+import type { AutocompleteInteraction } from 'discord.js';
+import {
+  AutocompleteChoice,
+  autocompleteFrom,
+  filterByQuery,
+} from './Autocomplete';
+import { MAX_CHOICES } from './CommandValidation';
+import { ValidationError } from './CustomErrors';
+
+/**
+ * A TypeScript enum or a const object, e.g. `{ Small: 's', Large: 'l' } as const`
+ */
+export type EnumLike = Record<string, string | number>;
+
+type EnumKey<E extends EnumLike> = Extract<keyof E, string>;
+
+/**
+ * What's shown to the user for an entry, this defaults to the entry's key
+ */
+export type EnumLabel =
+  | string
+  | { name: string; nameLocalizations?: LocalizationMap };
+
+export interface EnumOptionSettings<E extends EnumLike> {
+  readonly name: string;
+  readonly nameLocalizations?: LocalizationMap;
+  readonly description: string;
+  readonly descriptionLocalizations?: LocalizationMap;
+  readonly required?: boolean;
+  /**
+   * The key of the entry to use when the option isn't given
+   */
+  readonly default?: EnumKey<E>;
+  readonly labels?: { readonly [K in EnumKey<E>]?: EnumLabel };
+}
+
+interface EnumChoice {
+  name: string;
+  nameLocalizations?: LocalizationMap;
+  value: string;
+}
+
+export type EnumOptionData<
+  E extends EnumLike,
+  O extends EnumOptionSettings<E>
+> = Omit<O, 'labels'> & {
+  readonly type: 'STRING';
+  readonly transformer: (value: string) => E[EnumKey<E>];
+} & (
+    | {
+        readonly choices: readonly [EnumChoice, ...EnumChoice[]];
+        readonly autocomplete?: false;
+      }
+    | {
+        readonly autocomplete: true;
+        readonly onAutocomplete: (
+          interaction: AutocompleteInteraction,
+          value: string
+        ) => Promise<AutocompleteChoice[]>;
+      }
+  );
+
+/**
+ * Builds a string option from an enum or const object. The user picks one of
+ * the keys, and the handler gets the value for that key. If there are more
+ * entries than Discord allows as choices, the option uses autocomplete instead.
+ *
+ * ```ts
+ * options: [
+ *   enumOption(Size, {
+ *     name: 'size',
+ *     description: 'How big',
+ *     labels: { Small: { name: 'Small', nameLocalizations: { fr: 'Petit' } } },
+ *   }),
+ * ] as const
+ * ```
+ */
+export function enumOption<
+  E extends EnumLike,
+  const O extends EnumOptionSettings<E>
+>(values: E, settings: O): EnumOptionData<E, O> {
+  const { labels = {}, ...option } = settings;
+  const choices: EnumChoice[] = Object.entries(values)
+    .filter(([key, value]) => !isReverseMapping(values, key, value))
+    .map(([key]) => {
+      const label: EnumLabel =
+        (labels as Record<string, EnumLabel | undefined>)[key] ?? key;
+      return typeof label === 'string'
+        ? { name: label, value: key }
+        : { ...label, value: key };
+    });
+  if (choices.length === 0)
+    throw new Error(`The option ${settings.name} doesn't have any entries`);
+
+  const transformer = (value: string) => {
+    if (Object.prototype.hasOwnProperty.call(values, value))
+      return values[value] as E[EnumKey<E>];
+    // Prefix commands and autocomplete options can have anything typed in,
+    // so also accept the labels
+    const lower = value.toLowerCase();
+    const choice = choices.find(
+      (choice) =>
+        choice.value.toLowerCase() === lower ||
+        choiceNames(choice).some((name) => name.toLowerCase() === lower)
+    );
+    if (!choice)
+      throw new ValidationError(`\`${value}\` isn't one of the options.`);
+    return values[choice.value] as E[EnumKey<E>];
+  };
+
+  if (choices.length <= MAX_CHOICES)
+    return {
+      ...option,
+      type: 'STRING',
+      choices: choices as [EnumChoice, ...EnumChoice[]],
+      transformer,
+    } as EnumOptionData<E, O>;
+  return {
+    ...option,
+    type: 'STRING',
+    autocomplete: true,
+    onAutocomplete: autocompleteFrom(
+      (query, interaction) =>
+        filterByQuery(choices, query, {
+          getText: (choice) =>
+            choice.nameLocalizations?.[interaction.locale] ?? choice.name,
+        }),
+      { match: 'none' }
+    ),
+    transformer,
+  } as EnumOptionData<E, O>;
+}
+
+// Numeric enums also map each value back to its key
+function isReverseMapping(
+  values: EnumLike,
+  key: string,
+  value: string | number
+) {
+  return typeof value === 'string' && values[value] === Number(key);
+}
+
+function choiceNames(choice: EnumChoice) {
+  return [
+    choice.name,
+    ...Object.values(choice.nameLocalizations ?? {}).filter(
+      (name): name is string => typeof name === 'string'
+    ),
+  ];
+}
@@ -0,0 +1,106 @@
+import { FSWatcher, readdirSync, statSync, watch } from 'fs';
+import { join, resolve, sep } from 'path';
+
+export interface FolderWatcher {
+  close(): void;
+}
+
+/**
+ * Watches a folder and all of its sub-folders. Changes are batched, so
+ * `onChange` is called once per burst of changes with every file that changed.
+ *
+ * Node only supports recursive watching on Linux from Node 20, on older
+ * versions every sub-folder gets its own watcher instead.
+ *
+ * @param path The folder to watch
+ * @param onChange Called with the absolute paths of the changed files
+ * @param debounce How long (in ms) to wait for more changes before calling `onChange`
+ */
+export function watchFolder(
+  path: string,
+  onChange: (filePaths: string[]) => void,
+  debounce = 100
+): FolderWatcher {
+  const folderPath = resolve(path);
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  const record = (filePath: string) => {
+    changed.add(filePath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      const filePaths = [...changed];
+      changed.clear();
+      onChange(filePaths);
+    }, debounce);
+  };
+  try {
+    return watch(folderPath, { recursive: true }, (_event, fileName) => {
+      if (!fileName) return;
+      record(join(folderPath, fileName.toString()));
+    });
+  } catch (e) {
+    if (
+      (e as NodeJS.ErrnoException).code !==
+      'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM'
+    )
+      throw e;
+    return watchEachFolder(folderPath, record);
+  }
+}
+
+function watchEachFolder(
+  folderPath: string,
+  record: (filePath: string) => void
+): FolderWatcher {
+  const watchers = new Map<string, FSWatcher>();
+  const add = (path: string) => {
+    if (watchers.has(path)) return;
+    const watcher = watch(path, (_event, fileName) => {
+      if (!fileName) return;
+      const filePath = join(path, fileName.toString());
+      record(filePath);
+      // Start watching folders that were just created
+      if (isDirectory(filePath)) add(filePath);
+    });
+    watcher.on('error', () => {
+      // The folder was deleted
+      watcher.close();
+      watchers.delete(path);
+    });
+    watchers.set(path, watcher);
+    readdirSync(path, { withFileTypes: true }).forEach((entry) => {
+      if (entry.isDirectory()) add(join(path, entry.name));
+    });
+  };
+  add(folderPath);
+  return {
+    close: () => {
+      watchers.forEach((watcher) => watcher.close());
+      watchers.clear();
+    },
+  };
+}
+
+function isDirectory(path: string) {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Removes every module inside of the given path from the require cache,
+ * so the next import loads a fresh copy from disk. Modules outside of the
+ * path stay cached, so changes to files that are imported from outside of
+ * the watched folders (e.g. a shared `utils` folder) need a restart.
+ */
+export function clearModuleCache(path: string) {
+  const fullPath = resolve(path);
+  Object.keys(require.cache).forEach((key) => {
+    // The separator keeps e.g. `commands-old` from matching `commands`
+    if (key === fullPath || key.startsWith(fullPath + sep)) {
+      delete require.cache[key];
+    }
+  });
+}
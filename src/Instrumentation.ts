@@ -0,0 +1,209 @@
+import { MaybePromise } from './utilityTypes';
+
+/**
+ * - `command`, `autocomplete`, `contextMenu`: Running a handler, labeled with `command`
+ * - `pageComponent`: Running a page's button or select handler, labeled with `page`
+ * - `modal`: Running a modal handler, labeled with `modal`
+ * - `pageWake`: Loading a page from its stored state, labeled with `page` once the state has been fetched
+ * - `pageRender`, `pageUpdate`, `pageStateStore`: Rendering, editing, and storing a page, labeled with `page`
+ */
+export type InstrumentedOperation =
+  | 'command'
+  | 'autocomplete'
+  | 'contextMenu'
+  | 'pageComponent'
+  | 'modal'
+  | 'pageWake'
+  | 'pageRender'
+  | 'pageUpdate'
+  | 'pageStateStore';
+
+export type InstrumentationLabels = Record<string, string>;
+
+/**
+ * Called when an operation ends
+ *
+ * @param failed Whether the operation threw
+ * @param error What the operation threw, if it failed
+ */
+export type OperationEndFn = (failed: boolean, error?: unknown) => void;
+
+export interface Instrumentation {
+  /**
+   * Called when an operation starts, this can be used to start a trace span.
+   * Labels can still be added while the operation runs, so read them again
+   * when it ends.
+   *
+   * @returns A function that is called once the operation ends
+   */
+  start(
+    operation: InstrumentedOperation,
+    labels: InstrumentationLabels
+  ): OperationEndFn;
+}
+
+/**
+ * Runs the function and reports how long it took, and if it threw
+ */
+export async function instrument<T>(
+  instrumentation: Instrumentation | undefined,
+  operation: InstrumentedOperation,
+  labels: InstrumentationLabels,
+  fn: () => MaybePromise<T>
+): Promise<T> {
+  if (!instrumentation) return fn();
+  const end = instrumentation.start(operation, labels);
+  try {
+    const result = await fn();
+    end(false);
+    return result;
+  } catch (e) {
+    end(true, e);
+    throw e;
+  }
+}
+
+interface OperationSeries {
+  operation: InstrumentedOperation;
+  labels: InstrumentationLabels;
+  successes: number;
+  errors: number;
+  // Cumulative counts for each bucket, plus one for +Inf
+  bucketCounts: number[];
+  durationSum: number;
+}
+
+export interface MemoryInstrumentationOptions {
+  /**
+   * The upper bounds (in seconds) of the duration histogram buckets
+   */
+  buckets?: number[];
+  /**
+   * Put in front of every metric name, defaults to `slashasaurus_`
+   */
+  prefix?: string;
+}
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+/**
+ * Keeps counts and durations of every operation in memory, and can export
+ * them in the Prometheus text format.
+ */
+export class MemoryInstrumentation implements Instrumentation {
+  private series = new Map<string, OperationSeries>();
+  private buckets: number[];
+  private prefix: string;
+
+  constructor(options: MemoryInstrumentationOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b
+    );
+    this.prefix = options.prefix ?? 'slashasaurus_';
+  }
+
+  start(operation: InstrumentedOperation, labels: InstrumentationLabels) {
+    const startedAt = performance.now();
+    return (failed: boolean) => {
+      this.observe(
+        operation,
+        labels,
+        (performance.now() - startedAt) / 1000,
+        failed
+      );
+    };
+  }
+
+  /**
+   * Removes everything that has been recorded
+   */
+  reset() {
+    this.series.clear();
+  }
+
+  /**
+   * Exports everything that has been recorded in the Prometheus text format
+   */
+  toPrometheus() {
+    const total = `${this.prefix}operations_total`;
+    const duration = `${this.prefix}operation_duration_seconds`;
+    const lines = [
+      `# HELP ${total} The number of operations that finished.`,
+      `# TYPE ${total} counter`,
+    ];
+    for (const series of this.series.values()) {
+      const labels = { operation: series.operation, ...series.labels };
+      lines.push(
+        `${total}${formatLabels({ ...labels, status: 'success' })} ${
+          series.successes
+        }`,
+        `${total}${formatLabels({ ...labels, status: 'error' })} ${
+          series.errors
+        }`
+      );
+    }
+    lines.push(
+      `# HELP ${duration} How long operations took.`,
+      `# TYPE ${duration} histogram`
+    );
+    for (const series of this.series.values()) {
+      const labels = { operation: series.operation, ...series.labels };
+      series.bucketCounts.forEach((count, i) => {
+        const le = i < this.buckets.length ? `${this.buckets[i]}` : '+Inf';
+        lines.push(
+          `${duration}_bucket${formatLabels({ ...labels, le })} ${count}`
+        );
+      });
+      lines.push(
+        `${duration}_sum${formatLabels(labels)} ${series.durationSum}`,
+        `${duration}_count${formatLabels(labels)} ${
+          series.successes + series.errors
+        }`
+      );
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private observe(
+    operation: InstrumentedOperation,
+    labels: InstrumentationLabels,
+    seconds: number,
+    failed: boolean
+  ) {
+    const key = operation + formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        operation,
+        labels,
+        successes: 0,
+        errors: 0,
+        bucketCounts: new Array(this.buckets.length + 1).fill(0),
+        durationSum: 0,
+      };
+      this.series.set(key, series);
+    }
+    if (failed) series.errors++;
+    else series.successes++;
+    series.durationSum += seconds;
+    const { bucketCounts } = series;
+    this.buckets.forEach((bound, i) => {
+      if (seconds <= bound) bucketCounts[i]++;
+    });
+    bucketCounts[this.buckets.length]++;
+  }
+}
+
+function formatLabels(labels: InstrumentationLabels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries
+    .map(
+      ([name, value]) =>
+        `${name}="${value
+          .replace(/\\/g, '\\\\')
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, '\\n')}"`
+    )
+    .join(',')}}`;
+}
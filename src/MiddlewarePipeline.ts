@@ -1,21 +1,124 @@
+/**
+ * Created for every interaction that runs through middleware, and passed to
+ * each middleware after `next` and then to the handler.
+ *
+ * Middleware listed in a command's `middleware` can say what they add with the
+ * second type argument of {@link Middleware}, and the command's `run` handler
+ * gets those properties without having to check for them:
+ *
+ * ```ts
+ * const auth: Middleware<CommandRunFunction<[]>, { account: Account }> = async (
+ *   interaction,
+ *   client,
+ *   options,
+ *   next,
+ *   ctx
+ * ) => {
+ *   ctx.account = await loadAccount(interaction.user.id);
+ *   await next();
+ * };
+ *
+ * new SlashCommand(
+ *   {
+ *     name: 'balance',
+ *     description: 'Shows your balance',
+ *     options: [],
+ *     middleware: [auth],
+ *   },
+ *   {
+ *     run: (interaction, client, options, ctx) =>
+ *       interaction.reply(`You have ${ctx.account.balance} coins`),
+ *   }
+ * );
+ * ```
+ *
+ * Middleware added to the client or in `_middleware` files isn't known to the
+ * command, so what they add can be declared here with declaration merging.
+ * Those properties are optional in every handler:
+ *
+ * ```ts
+ * declare module 'slashasaurus' {
+ *   interface CommandContext {
+ *     locale: string;
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface CommandContext {}
+
+/**
+ * The arguments of a handler that runs through middleware, without the
+ * context that always comes last
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type HandlerArgs<T extends (...args: any[]) => any> = Parameters<T> extends [
+  ...infer Args,
+  unknown
+]
+  ? Args
+  : never;
+
+/**
+ * The context a handler that runs through middleware receives
+ */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type Middleware<T extends (...args: any[]) => any> = (
-  ...args: [...Parameters<T>, () => Promise<void>]
+type HandlerContext<T extends (...args: any[]) => any> = Parameters<T> extends [
+  ...unknown[],
+  infer Context
+]
+  ? Context
+  : never;
+
+/**
+ * @typeParam C The properties this middleware adds to the context
+ */
+export type Middleware<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  T extends (...args: any[]) => any,
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  C extends object = {}
+> = (
+  ...args: [...HandlerArgs<T>, () => Promise<void>, HandlerContext<T> & C]
 ) => void;
 
+// Middleware that don't say what they add, like inline functions, add nothing
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AddedContext<M> = M extends Middleware<any, infer C>
+  ? unknown extends C
+    ? never
+    : C
+  : never;
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (arg: U) => void : never
+) extends (arg: infer I) => void
+  ? I
+  : never;
+
+/**
+ * The properties a list of middleware add to the context together
+ */
+export type MiddlewareContext<M extends readonly unknown[]> =
+  UnionToIntersection<AddedContext<M[number]>>;
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export class Pipeline<T extends (...args: any[]) => any> {
-  stack: Array<Middleware<T>>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  stack: Array<Middleware<T, any>>;
 
   constructor() {
     this.stack = [];
   }
 
-  push(fn: Middleware<T>) {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  push<C extends object = {}>(fn: Middleware<T, C>) {
     this.stack.push(fn);
   }
 
-  async execute(lastFunction: T, ...args: Parameters<T>) {
+  async execute(lastFunction: T, ...args: HandlerArgs<T>) {
+    // Starts out empty, the middleware fill in what they add before calling next()
+    const ctx = {} as HandlerContext<T>;
     let previousIndex = -1;
 
     const runner = async (index: number) => {
@@ -25,7 +128,7 @@ export class Pipeline<T extends (...args: any[]) => any> {
 
       if (index >= this.stack.length) {
         // We've reached the end, run the last function
-        await lastFunction(...args);
+        await lastFunction(...args, ctx);
       }
 
       previousIndex = index;
@@ -33,9 +136,13 @@ export class Pipeline<T extends (...args: any[]) => any> {
       const middleware = this.stack[index];
 
       if (middleware) {
-        await middleware(...args, () => {
-          return runner(index + 1);
-        });
+        await middleware(
+          ...args,
+          () => {
+            return runner(index + 1);
+          },
+          ctx
+        );
       }
     };
 
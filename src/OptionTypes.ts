@@ -5,6 +5,8 @@ import {
   CommandInteraction,
   ChannelType,
 } from 'discord.js';
+import type { AttachmentConstraints } from './Attachments';
+import type { AutocompleteResult } from './Autocomplete';
 import { SlashasaurusClient } from './SlashasaurusClient';
 import { MaybePromise, OptionsMap } from './utilityTypes';
 
@@ -29,6 +31,15 @@ interface BaseApplicationCommandOptionsData<T> {
    * Whether this option is required.
    */
   readonly required?: boolean;
+  /**
+   * The value to use when an optional option isn't given, or a function that returns it.
+   * This is used before the validator and transformer run.
+   */
+  readonly default?:
+    | T
+    | ((
+        interaction: CommandInteraction | AutocompleteInteraction
+      ) => MaybePromise<T>);
   readonly autocomplete?: never;
   /**
    * A custom validator for the option. This will only run before the command's run handler is called.
@@ -39,6 +50,14 @@ interface BaseApplicationCommandOptionsData<T> {
     interaction: CommandInteraction,
     value: T
   ) => MaybePromise<boolean | string>;
+  /**
+   * Turns the value into what's passed to the handler, e.g. an id into a database record. This runs after the validator.
+   * If the transformer throws a {@link ValidationError}, that will be used as the error message like a failed validator.
+   */
+  readonly transformer?: (
+    value: T,
+    interaction: CommandInteraction | AutocompleteInteraction
+  ) => unknown;
 }
 
 interface ApplicationCommandOptionChoiceData<T extends string | number> {
@@ -77,8 +96,7 @@ interface StringAutocompleteOptionsData
     interaction: AutocompleteInteraction,
     value: string,
     client: SlashasaurusClient
-  ) => void;
-  readonly transformer?: (value: string) => unknown;
+  ) => MaybePromise<AutocompleteResult>;
 }
 
 // INTEGER
@@ -113,8 +131,7 @@ interface IntegerAutocompleteOptionsData
     interaction: AutocompleteInteraction,
     value: number,
     client: SlashasaurusClient
-  ) => void;
-  readonly transformer?: (value: number) => unknown;
+  ) => MaybePromise<AutocompleteResult>;
 }
 
 // BOOLEAN
@@ -207,8 +224,7 @@ interface NumberAutocompleteOptionsData
     interaction: AutocompleteInteraction,
     value: number,
     client: SlashasaurusClient
-  ) => void;
-  readonly transformer?: (value: number) => unknown;
+  ) => MaybePromise<AutocompleteResult>;
 }
 
 // ATTACHMENT
@@ -217,7 +233,8 @@ type AttachmentChoiceResolvableType =
   | 'ATTACHMENT';
 
 interface AttachmentOptionsData
-  extends BaseApplicationCommandOptionsData<OptionsMap['ATTACHMENT']> {
+  extends BaseApplicationCommandOptionsData<OptionsMap['ATTACHMENT']>,
+    AttachmentConstraints {
   readonly type: AttachmentChoiceResolvableType;
 }
 
@@ -16,10 +16,12 @@ import {
   MessagePayload,
   RoleSelectMenuInteraction,
   SelectMenuInteraction,
-  TextBasedChannel,
+  SendableChannels,
   UserSelectMenuInteraction,
   WebhookMessageEditOptions,
 } from 'discord.js';
+import { AutoDeferSetting } from './AutoDefer';
+import type { CommandContext } from './MiddlewarePipeline';
 import { PageActionRow, PageButton, PageSelect } from './PageComponents';
 import { SlashasaurusClient } from './SlashasaurusClient';
 import { MaybePromise } from './utilityTypes';
@@ -70,9 +72,26 @@ export class PageInteractionReplyMessage {
   }
 }
 
+export type PageComponentInteraction =
+  | ButtonInteraction
+  | SelectMenuInteraction
+  | UserSelectMenuInteraction
+  | RoleSelectMenuInteraction
+  | ChannelSelectMenuInteraction
+  | MentionableSelectMenuInteraction;
+
+export type PageComponentHandlerFunction = (
+  interaction: PageComponentInteraction,
+  client: SlashasaurusClient,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  page: Page<any, any>,
+  ctx: Partial<CommandContext>
+) => void;
+
 interface PageStatic<P, S> {
   new (): Page<P, S>;
   pageId: string;
+  autoDefer?: AutoDeferSetting;
   _client: SlashasaurusClient;
   deserializeState: DeserializeStateFn<P, S>;
 }
@@ -95,6 +114,13 @@ export abstract class Page<
   nextId: number;
   message: Message | PageInteractionReplyMessage | null;
   static pageId = DEFAULT_PAGE_ID;
+  /**
+   * Defers the update if a component handler takes too long to respond, this
+   * overrides the client's `autoDefer` setting. The timer starts when the
+   * interaction arrives, so a page that has to be loaded from storage first
+   * uses the client's setting.
+   */
+  static autoDefer?: AutoDeferSetting;
   latestInteraction: MessageComponentInteraction | null = null;
 
   constructor(props: P) {
@@ -133,7 +159,7 @@ export abstract class Page<
     return;
   }
 
-  sendToChannel(channel: TextBasedChannel) {
+  sendToChannel(channel: SendableChannels) {
     return this.client.sendPageToChannel(this, channel);
   }
 
@@ -166,19 +192,10 @@ export abstract class Page<
    */
   abstract serializeState(): string;
 
-  handleId(
-    id: string,
-    interaction:
-      | ButtonInteraction
-      | SelectMenuInteraction
-      | UserSelectMenuInteraction
-      | RoleSelectMenuInteraction
-      | ChannelSelectMenuInteraction
-      | MentionableSelectMenuInteraction
-  ) {
+  handleId(id: string, interaction: PageComponentInteraction) {
     const handler = this.handlers.get(id);
     if (handler) {
-      handler(interaction);
+      return handler(interaction);
     } else {
       throw new Error('Handler not registered for this component');
     }
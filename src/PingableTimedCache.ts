@@ -9,6 +9,8 @@ export class PingableTimedCache<T> {
   constructor(ttl: number, leaveHook?: (value: T) => void) {
     this.ttl = ttl;
     this.timer = setInterval(() => this.clear(), 1000);
+    // Don't keep the process alive just for this, e.g. in scripts that never log in
+    this.timer.unref();
     if (leaveHook) this.leaveHook = leaveHook;
   }
 
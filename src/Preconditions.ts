@@ -0,0 +1,212 @@
+import {
+  CommandInteraction,
+  InteractionReplyOptions,
+  PermissionResolvable,
+  PermissionsString,
+  Team,
+} from 'discord.js';
+import type { SlashasaurusClient } from './SlashasaurusClient';
+import { MaybePromise } from './utilityTypes';
+
+export type PreconditionFailure =
+  | { reason: 'guildOnly' }
+  | { reason: 'ownerOnly' }
+  | { reason: 'missingRoles'; roles: string[] }
+  | { reason: 'missingMemberPermissions'; permissions: PermissionsString[] }
+  | { reason: 'missingBotPermissions'; permissions: PermissionsString[] }
+  /**
+   * Returned by {@link anyOf} when none of the preconditions passed
+   */
+  | { reason: 'noneMatched'; failures: PreconditionFailure[] }
+  /**
+   * Returned by {@link negate} when the wrapped precondition passed
+   */
+  | { reason: 'negated' }
+  | { reason: 'custom'; message: string };
+
+/**
+ * A check that has to pass before a command runs
+ *
+ * @returns Nothing if the check passed, or why it failed
+ */
+export type Precondition = (
+  interaction: CommandInteraction,
+  client: SlashasaurusClient
+) => MaybePromise<PreconditionFailure | undefined>;
+
+export type PreconditionFailureFormatter = (
+  failure: PreconditionFailure,
+  interaction: CommandInteraction
+) => MaybePromise<string | InteractionReplyOptions>;
+
+/**
+ * Runs the preconditions in order and stops at the first one that fails
+ *
+ * @returns The first failure, or nothing if every precondition passed
+ */
+export async function runPreconditions(
+  preconditions: Precondition[],
+  interaction: CommandInteraction,
+  client: SlashasaurusClient
+) {
+  for (const precondition of preconditions) {
+    const failure = await precondition(interaction, client);
+    if (failure) return failure;
+  }
+  return undefined;
+}
+
+/**
+ * Passes if every precondition passes
+ */
+export function allOf(...preconditions: Precondition[]): Precondition {
+  return (interaction, client) =>
+    runPreconditions(preconditions, interaction, client);
+}
+
+/**
+ * Passes if at least one of the preconditions passes
+ */
+export function anyOf(...preconditions: Precondition[]): Precondition {
+  return async (interaction, client) => {
+    const failures: PreconditionFailure[] = [];
+    for (const precondition of preconditions) {
+      const failure = await precondition(interaction, client);
+      if (!failure) return undefined;
+      failures.push(failure);
+    }
+    return { reason: 'noneMatched', failures };
+  };
+}
+
+/**
+ * Passes if the precondition fails
+ *
+ * @param failure The failure to report if the precondition passes
+ */
+export function negate(
+  precondition: Precondition,
+  failure: PreconditionFailure = { reason: 'negated' }
+): Precondition {
+  return async (interaction, client) =>
+    (await precondition(interaction, client)) ? undefined : failure;
+}
+
+/**
+ * Passes if the command was run in a guild
+ */
+export function guildOnly(): Precondition {
+  return (interaction) =>
+    interaction.inGuild() ? undefined : { reason: 'guildOnly' };
+}
+
+/**
+ * Passes if the user owns the bot
+ *
+ * @param ownerIds The ids of the owners, if this is left out the owner (or team members) of the application are used
+ */
+export function ownerOnly(ownerIds?: string[]): Precondition {
+  // The application is only fetched once, the owners rarely change
+  let owners: Promise<string[]> | undefined = ownerIds
+    ? Promise.resolve(ownerIds)
+    : undefined;
+  return async (interaction, client) => {
+    if (!owners) {
+      owners = client.application
+        .fetch()
+        .then(({ owner }) =>
+          owner instanceof Team
+            ? [...owner.members.keys()]
+            : owner
+            ? [owner.id]
+            : []
+        );
+      // Try again next time if the fetch failed
+      owners.catch(() => (owners = undefined));
+    }
+    return (await owners).includes(interaction.user.id)
+      ? undefined
+      : { reason: 'ownerOnly' };
+  };
+}
+
+/**
+ * Passes if the member has every one of the roles
+ */
+export function hasRoles(...roleIds: string[]): Precondition {
+  return (interaction) => {
+    if (!interaction.inGuild() || !interaction.member)
+      return { reason: 'guildOnly' };
+    const { roles } = interaction.member;
+    const memberRoles = Array.isArray(roles) ? roles : [...roles.cache.keys()];
+    const missing = roleIds.filter((id) => !memberRoles.includes(id));
+    return missing.length > 0
+      ? { reason: 'missingRoles', roles: missing }
+      : undefined;
+  };
+}
+
+/**
+ * Passes if the member has the permissions in the channel the command was run in
+ */
+export function memberPermissions(
+  permissions: PermissionResolvable
+): Precondition {
+  return (interaction) => {
+    if (!interaction.inGuild()) return { reason: 'guildOnly' };
+    const missing = interaction.memberPermissions.missing(permissions);
+    return missing.length > 0
+      ? { reason: 'missingMemberPermissions', permissions: missing }
+      : undefined;
+  };
+}
+
+/**
+ * Passes if the bot has the permissions in the channel the command was run in
+ */
+export function botPermissions(
+  permissions: PermissionResolvable
+): Precondition {
+  return (interaction) => {
+    const missing = interaction.appPermissions.missing(permissions);
+    return missing.length > 0
+      ? { reason: 'missingBotPermissions', permissions: missing }
+      : undefined;
+  };
+}
+
+/**
+ * Replies with a short explanation of the failure, only visible to the user
+ */
+export const defaultPreconditionFailureFormatter: PreconditionFailureFormatter =
+  (failure) => ({
+    content: describePreconditionFailure(failure),
+    ephemeral: true,
+  });
+
+function describePreconditionFailure(failure: PreconditionFailure): string {
+  switch (failure.reason) {
+    case 'guildOnly':
+      return 'This command can only be used in a server.';
+    case 'ownerOnly':
+      return 'This command can only be used by the owner of the bot.';
+    case 'missingRoles':
+      return `You need the following roles to use this command: ${failure.roles
+        .map((id) => `<@&${id}>`)
+        .join(', ')}`;
+    case 'missingMemberPermissions':
+      return `You need the following permissions to use this command: ${failure.permissions.join(
+        ', '
+      )}`;
+    case 'missingBotPermissions':
+      return `I need the following permissions to run this command: ${failure.permissions.join(
+        ', '
+      )}`;
+    case 'noneMatched':
+      return failure.failures.map(describePreconditionFailure).join('\nOr: ');
+    case 'negated':
+      return "You can't use this command.";
+    case 'custom':
+      return failure.message;
+  }
+}
@@ -0,0 +1,686 @@
+import { ApplicationCommandOptionType } from 'discord-api-types/v10';
+import {
+  ApplicationCommandType,
+  Attachment,
+  Channel,
+  GuildMember,
+  InteractionDeferReplyOptions,
+  InteractionEditReplyOptions,
+  InteractionReplyOptions,
+  InteractionType,
+  Locale,
+  Message,
+  MessageFlags,
+  MessageFlagsBitField,
+  MessageReplyOptions,
+  PermissionsBitField,
+  Role,
+  User,
+} from 'discord.js';
+import type { OptionValidationIssue } from './CustomErrors';
+import type { ApplicationCommandOptionData } from './OptionTypes';
+import type { SlashasaurusClient } from './SlashasaurusClient';
+import { MaybePromise } from './utilityTypes';
+
+/**
+ * The prefixes that start a command, or a function that gets them for a
+ * message (e.g. to use a per-guild prefix)
+ */
+export type PrefixSetting =
+  | string
+  | string[]
+  | ((message: Message) => MaybePromise<string | string[] | undefined>);
+
+export interface PrefixArgument {
+  /**
+   * Set if the argument was passed as `name:value`, as it was written. This
+   * only passes the value to an option if an option has this name, otherwise
+   * `name:value` is used as a positional argument (e.g. urls).
+   */
+  name?: string;
+  value: string;
+}
+
+const optionNameRegex = /^[\p{L}\p{N}_-]+$/u;
+
+/**
+ * Splits the text after the prefix into arguments. Arguments are separated by
+ * whitespace unless they're in double quotes, and `name:value` arguments are
+ * passed to the option with that name.
+ */
+export function parsePrefixArguments(content: string) {
+  const args: PrefixArgument[] = [];
+  let current: PrefixArgument | undefined;
+  let inQuotes = false;
+  let wasQuoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\' && (content[i + 1] === '"' || content[i + 1] === '\\')) {
+      current ??= { value: '' };
+      current.value += content[++i];
+    } else if (char === '"') {
+      current ??= { value: '' };
+      inQuotes = !inQuotes;
+      wasQuoted = true;
+    } else if (!inQuotes && /\s/.test(char)) {
+      if (current) args.push(current);
+      current = undefined;
+      wasQuoted = false;
+    } else if (
+      !inQuotes &&
+      char === ':' &&
+      current &&
+      current.name === undefined &&
+      !wasQuoted &&
+      optionNameRegex.test(current.value)
+    ) {
+      current.name = current.value;
+      current.value = '';
+    } else {
+      current ??= { value: '' };
+      current.value += char;
+    }
+  }
+  if (current) args.push(current);
+  return args;
+}
+
+type ResolvedUser = { user: User; member: GuildMember | null };
+
+const optionTypes: Record<string, ApplicationCommandOptionType> = {
+  STRING: ApplicationCommandOptionType.String,
+  INTEGER: ApplicationCommandOptionType.Integer,
+  BOOLEAN: ApplicationCommandOptionType.Boolean,
+  USER: ApplicationCommandOptionType.User,
+  CHANNEL: ApplicationCommandOptionType.Channel,
+  ROLE: ApplicationCommandOptionType.Role,
+  MENTIONABLE: ApplicationCommandOptionType.Mentionable,
+  NUMBER: ApplicationCommandOptionType.Number,
+  ATTACHMENT: ApplicationCommandOptionType.Attachment,
+};
+
+const invalidValueMessages: Record<ApplicationCommandOptionType, string> = {
+  [ApplicationCommandOptionType.Subcommand]: '',
+  [ApplicationCommandOptionType.SubcommandGroup]: '',
+  [ApplicationCommandOptionType.String]: '',
+  [ApplicationCommandOptionType.Integer]: 'must be a whole number',
+  [ApplicationCommandOptionType.Boolean]: 'must be true or false',
+  [ApplicationCommandOptionType.User]: 'must be a user',
+  [ApplicationCommandOptionType.Channel]: 'must be a channel in this server',
+  [ApplicationCommandOptionType.Role]: 'must be a role in this server',
+  [ApplicationCommandOptionType.Mentionable]: 'must be a user or role',
+  [ApplicationCommandOptionType.Number]: 'must be a number',
+  [ApplicationCommandOptionType.Attachment]: 'must be an attachment',
+};
+
+const booleanValues: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  on: true,
+  '1': true,
+  false: false,
+  no: false,
+  off: false,
+  '0': false,
+};
+
+/**
+ * Gives prefix commands the same getters as the options of a chat input
+ * interaction. The values are only available after {@link resolve} is called.
+ */
+export class PrefixCommandOptionResolver {
+  private values = new Map<string, unknown>();
+
+  constructor(
+    private message: Message,
+    private args: PrefixArgument[],
+    // These mirror the TS-private fields of discord.js' resolver
+    readonly _group: string | null,
+    readonly _subcommand: string | null
+  ) {}
+
+  /**
+   * Maps the arguments onto the options, fetching any users, roles and
+   * channels they mention
+   *
+   * @returns The problems with the arguments, this is empty if they're valid
+   */
+  async resolve(
+    options: readonly ApplicationCommandOptionData[]
+  ): Promise<OptionValidationIssue[]> {
+    const issues: OptionValidationIssue[] = [];
+    const raw = new Map<string, string>();
+    const positional: string[] = [];
+    for (const arg of this.args) {
+      const option =
+        arg.name !== undefined &&
+        options.find((option) => option.name === arg.name?.toLowerCase());
+      if (option) {
+        raw.set(option.name, arg.value);
+      } else {
+        // Things like urls look like named arguments, so keep them as they were
+        positional.push(
+          arg.name !== undefined ? `${arg.name}:${arg.value}` : arg.value
+        );
+      }
+    }
+    const positionalOptions = options.filter(
+      (option) =>
+        !raw.has(option.name) &&
+        getOptionType(option) !== ApplicationCommandOptionType.Attachment
+    );
+    positionalOptions.forEach((option, i) => {
+      if (i >= positional.length) return;
+      const isLast = i === positionalOptions.length - 1;
+      if (
+        isLast &&
+        getOptionType(option) === ApplicationCommandOptionType.String
+      ) {
+        // The last string option gets the rest of the arguments
+        raw.set(option.name, positional.slice(i).join(' '));
+      } else {
+        raw.set(option.name, positional[i]);
+      }
+    });
+    const lastOption = positionalOptions[positionalOptions.length - 1];
+    if (
+      positional.length > positionalOptions.length &&
+      (!lastOption ||
+        getOptionType(lastOption) !== ApplicationCommandOptionType.String)
+    ) {
+      issues.push({
+        option: lastOption?.name ?? '',
+        value: positional.slice(positionalOptions.length).join(' '),
+        message: 'Too many arguments were given.',
+      });
+    }
+
+    const attachments = [...this.message.attachments.values()];
+    for (const option of options) {
+      const type = getOptionType(option);
+      if (type === ApplicationCommandOptionType.Attachment) {
+        const attachment = attachments.shift();
+        if (attachment) this.values.set(option.name, attachment);
+        else if (option.required)
+          issues.push({
+            option: option.name,
+            value: null,
+            message: `Missing an attachment for \`${option.name}\`.`,
+          });
+        continue;
+      }
+      const text = raw.get(option.name);
+      if (text === undefined) {
+        if (option.required)
+          issues.push({
+            option: option.name,
+            value: null,
+            message: `Missing a value for \`${option.name}\`.`,
+          });
+        continue;
+      }
+      const value = await this.parseValue(option, type, text);
+      if (value === undefined) {
+        issues.push({
+          option: option.name,
+          value: text,
+          message: `\`${option.name}\` ${invalidValueMessages[type]}.`,
+        });
+        continue;
+      }
+      const problem = checkConstraints(option, value);
+      if (typeof problem === 'string') {
+        issues.push({
+          option: option.name,
+          value: text,
+          message: `\`${option.name}\` ${problem}.`,
+        });
+        continue;
+      }
+      this.values.set(option.name, problem.value);
+    }
+    return issues;
+  }
+
+  getSubcommand(required?: true): string;
+  getSubcommand(required: boolean): string | null;
+  getSubcommand(required = true) {
+    if (required && !this._subcommand)
+      throw new Error('A subcommand was not selected');
+    return this._subcommand;
+  }
+
+  getSubcommandGroup(required: true): string;
+  getSubcommandGroup(required?: boolean): string | null;
+  getSubcommandGroup(required = false) {
+    if (required && !this._group)
+      throw new Error('A subcommand group was not selected');
+    return this._group;
+  }
+
+  getString(name: string, required = false) {
+    return this.get<string>(name, required);
+  }
+
+  getInteger(name: string, required = false) {
+    return this.get<number>(name, required);
+  }
+
+  getNumber(name: string, required = false) {
+    return this.get<number>(name, required);
+  }
+
+  getBoolean(name: string, required = false) {
+    return this.get<boolean>(name, required);
+  }
+
+  getUser(name: string, required = false) {
+    const value = this.get<ResolvedUser | Role>(name, required);
+    return value && 'user' in value ? value.user : null;
+  }
+
+  getMember(name: string) {
+    const value = this.get<ResolvedUser | Role>(name, false);
+    return value && 'user' in value ? value.member : null;
+  }
+
+  getRole(name: string, required = false) {
+    const value = this.get<ResolvedUser | Role>(name, required);
+    return value instanceof Role ? value : null;
+  }
+
+  getMentionable(name: string, required = false) {
+    const value = this.get<ResolvedUser | Role>(name, required);
+    return value && 'user' in value ? value.member ?? value.user : value;
+  }
+
+  getChannel(name: string, required = false) {
+    return this.get<Channel>(name, required);
+  }
+
+  getAttachment(name: string, required = false) {
+    return this.get<Attachment>(name, required);
+  }
+
+  private get<T>(name: string, required: boolean) {
+    const value = this.values.get(name);
+    if (value === undefined) {
+      if (required) throw new Error(`Option "${name}" is required`);
+      return null;
+    }
+    return value as T;
+  }
+
+  private async parseValue(
+    option: ApplicationCommandOptionData,
+    type: ApplicationCommandOptionType,
+    text: string
+  ): Promise<unknown> {
+    switch (type) {
+      case ApplicationCommandOptionType.String:
+        return text;
+      case ApplicationCommandOptionType.Integer:
+        return /^-?\d+$/.test(text) ? Number(text) : undefined;
+      case ApplicationCommandOptionType.Number: {
+        const value = Number(text);
+        return text.trim() !== '' && Number.isFinite(value) ? value : undefined;
+      }
+      case ApplicationCommandOptionType.Boolean:
+        return booleanValues[text.toLowerCase()];
+      case ApplicationCommandOptionType.User:
+        return this.fetchUser(text);
+      case ApplicationCommandOptionType.Role:
+        return this.fetchRole(text);
+      case ApplicationCommandOptionType.Mentionable:
+        return (await this.fetchUser(text)) ?? this.fetchRole(text);
+      case ApplicationCommandOptionType.Channel:
+        return this.fetchChannel(text);
+      default:
+        throw new Error(
+          `Option ${option.name} has a type that can't be used in a prefix command`
+        );
+    }
+  }
+
+  private async fetchUser(text: string): Promise<ResolvedUser | undefined> {
+    const id = /^(?:<@!?(\d+)>|(\d+))$/.exec(text)?.slice(1).find(Boolean);
+    if (!id) return undefined;
+    const user = await this.message.client.users.fetch(id).catch(() => null);
+    if (!user) return undefined;
+    const member =
+      (await this.message.guild?.members.fetch(id).catch(() => null)) ?? null;
+    return { user, member };
+  }
+
+  private async fetchRole(text: string) {
+    const id = /^(?:<@&(\d+)>|(\d+))$/.exec(text)?.slice(1).find(Boolean);
+    if (!id || !this.message.guild) return undefined;
+    return (
+      (await this.message.guild.roles.fetch(id).catch(() => null)) ?? undefined
+    );
+  }
+
+  private async fetchChannel(text: string) {
+    const id = /^(?:<#(\d+)>|(\d+))$/.exec(text)?.slice(1).find(Boolean);
+    if (!id) return undefined;
+    const channel = await this.message.client.channels
+      .fetch(id)
+      .catch(() => null);
+    if (!channel) return undefined;
+    // Like slash commands, only channels from the same server can be used
+    const guildId = 'guildId' in channel ? channel.guildId : null;
+    return guildId === this.message.guildId ? channel : undefined;
+  }
+}
+
+function getOptionType(option: ApplicationCommandOptionData) {
+  return typeof option.type === 'string'
+    ? optionTypes[option.type]
+    : option.type;
+}
+
+/**
+ * Checks the limits Discord would check for a slash command
+ *
+ * @returns The value to use, or what's wrong with the value
+ */
+function checkConstraints(
+  option: ApplicationCommandOptionData,
+  value: unknown
+): { value: unknown } | string {
+  if ('choices' in option && option.choices) {
+    const choices: readonly { name: string; value: string | number }[] =
+      option.choices;
+    const choice = choices.find(
+      (choice) =>
+        choice.value === value ||
+        (typeof value === 'string' &&
+          choice.name.toLowerCase() === value.toLowerCase())
+    );
+    if (!choice)
+      return `must be one of: ${choices
+        .map((choice) => choice.name)
+        .join(', ')}`;
+    return { value: choice.value };
+  }
+  if (typeof value === 'number') {
+    if ('minValue' in option && option.minValue !== undefined)
+      if (value < option.minValue) return `must be at least ${option.minValue}`;
+    if ('maxValue' in option && option.maxValue !== undefined)
+      if (value > option.maxValue) return `must be at most ${option.maxValue}`;
+  }
+  if (typeof value === 'string') {
+    if ('minLength' in option && option.minLength !== undefined)
+      if (value.length < option.minLength)
+        return `must be at least ${option.minLength} characters long`;
+    if ('maxLength' in option && option.maxLength !== undefined)
+      if (value.length > option.maxLength)
+        return `must be at most ${option.maxLength} characters long`;
+  }
+  if (
+    'channelTypes' in option &&
+    option.channelTypes &&
+    value &&
+    typeof value === 'object' &&
+    'type' in value &&
+    !(option.channelTypes as unknown[]).includes(value.type)
+  ) {
+    return "can't be that type of channel";
+  }
+  return { value };
+}
+
+function toMessageOptions(
+  options: string | InteractionReplyOptions | InteractionEditReplyOptions
+): MessageReplyOptions {
+  if (typeof options === 'string') return { content: options };
+  // Messages can't be ephemeral, and the reply is always fetched
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { ephemeral, fetchReply, flags, ...rest } =
+    options as InteractionReplyOptions;
+  if (flags === undefined) return rest as MessageReplyOptions;
+  // Flags like SuppressEmbeds work the same for messages
+  const messageFlags = new MessageFlagsBitField(
+    flags as ConstructorParameters<typeof MessageFlagsBitField>[0]
+  ).remove(MessageFlags.Ephemeral);
+  return {
+    ...rest,
+    flags: messageFlags.bitfield,
+  } as MessageReplyOptions;
+}
+
+function isEphemeral(
+  options: string | InteractionReplyOptions | InteractionDeferReplyOptions
+) {
+  if (typeof options === 'string') return false;
+  return (
+    options.ephemeral === true ||
+    ('flags' in options &&
+      options.flags !== undefined &&
+      new MessageFlagsBitField(
+        options.flags as ConstructorParameters<typeof MessageFlagsBitField>[0]
+      ).has(MessageFlags.Ephemeral))
+  );
+}
+
+/**
+ * Stands in for the interaction when a chat command is run from a message.
+ * Replies are sent as replies to the message. Messages can't be ephemeral, so
+ * ephemeral replies are sent to the user's DMs instead, or to the channel if
+ * the user doesn't accept DMs.
+ *
+ * This only has the members that can work without an interaction, things like
+ * `webhook` and `token` don't exist. Use {@link isPrefixCommandInteraction} to
+ * check for this before using them.
+ */
+export class PrefixCommandInteraction {
+  readonly type = InteractionType.ApplicationCommand;
+  readonly commandType = ApplicationCommandType.ChatInput;
+  readonly command = null;
+  /**
+   * Whether the deferred reply will be sent to the user's DMs
+   */
+  ephemeral: boolean | null = null;
+  replied = false;
+  deferred = false;
+  /**
+   * The reply sent by the command, once it has replied
+   */
+  replyMessage: Message | null = null;
+
+  constructor(
+    readonly client: SlashasaurusClient,
+    readonly message: Message,
+    readonly commandName: string,
+    /**
+     * The guild the command is registered to, or null for global commands
+     */
+    readonly commandGuildId: string | null,
+    readonly options: PrefixCommandOptionResolver
+  ) {}
+
+  get id() {
+    return this.message.id;
+  }
+
+  get applicationId() {
+    return this.client.application.id;
+  }
+
+  get user() {
+    return this.message.author;
+  }
+
+  get member() {
+    return this.message.member;
+  }
+
+  get guild() {
+    return this.message.guild;
+  }
+
+  get guildId() {
+    return this.message.guildId;
+  }
+
+  get channel() {
+    return this.message.channel;
+  }
+
+  get channelId() {
+    return this.message.channelId;
+  }
+
+  get createdTimestamp() {
+    return this.message.createdTimestamp;
+  }
+
+  get createdAt() {
+    return this.message.createdAt;
+  }
+
+  /**
+   * Messages don't have the user's locale, so this is the guild's locale
+   */
+  get locale() {
+    return this.message.guild?.preferredLocale ?? Locale.EnglishUS;
+  }
+
+  get guildLocale() {
+    return this.message.guild?.preferredLocale ?? null;
+  }
+
+  get memberPermissions() {
+    if (!this.message.inGuild() || !this.message.member) return null;
+    return this.message.member.permissionsIn(this.message.channel);
+  }
+
+  /**
+   * The bot's permissions in the channel, in DMs this has every permission
+   */
+  get appPermissions() {
+    if (!this.message.inGuild())
+      return new PermissionsBitField(PermissionsBitField.All).freeze();
+    return (
+      this.message.guild.members.me?.permissionsIn(this.message.channel) ??
+      new PermissionsBitField().freeze()
+    );
+  }
+
+  inGuild() {
+    return this.message.inGuild();
+  }
+
+  inCachedGuild() {
+    return this.message.inGuild();
+  }
+
+  inRawGuild() {
+    return false;
+  }
+
+  isCommand() {
+    return true;
+  }
+
+  isChatInputCommand() {
+    return true;
+  }
+
+  isContextMenuCommand() {
+    return false;
+  }
+
+  isRepliable() {
+    return true;
+  }
+
+  isAutocomplete() {
+    return false;
+  }
+
+  isMessageComponent() {
+    return false;
+  }
+
+  isModalSubmit() {
+    return false;
+  }
+
+  async reply(options: string | InteractionReplyOptions) {
+    if (this.replied || this.deferred)
+      throw new Error('The reply to this command has already been sent');
+    this.replyMessage = await this.send(options, isEphemeral(options));
+    this.ephemeral = isEphemeral(options);
+    this.replied = true;
+    return this.replyMessage;
+  }
+
+  /**
+   * Shows that the bot is typing until the reply is sent
+   */
+  async deferReply(options: InteractionDeferReplyOptions = {}) {
+    if (this.replied || this.deferred)
+      throw new Error('The reply to this command has already been sent');
+    this.ephemeral = isEphemeral(options);
+    if (!this.ephemeral && 'sendTyping' in this.message.channel)
+      await this.message.channel.sendTyping();
+    this.deferred = true;
+  }
+
+  async editReply(options: string | InteractionEditReplyOptions) {
+    if (this.replyMessage) {
+      return this.replyMessage.edit(
+        toMessageOptions(options) as Parameters<Message['edit']>[0]
+      );
+    }
+    if (!this.deferred)
+      throw new Error(
+        'The reply to this command has not been sent or deferred'
+      );
+    this.replyMessage = await this.send(options, this.ephemeral === true);
+    this.replied = true;
+    return this.replyMessage;
+  }
+
+  async followUp(options: string | InteractionReplyOptions) {
+    return this.send(options, isEphemeral(options));
+  }
+
+  async fetchReply() {
+    if (!this.replyMessage)
+      throw new Error('The reply to this command has not been sent');
+    return this.replyMessage;
+  }
+
+  async deleteReply() {
+    if (!this.replyMessage) {
+      // A deferred reply is only the typing indicator, so there's nothing to delete
+      if (this.deferred) return;
+      throw new Error('The reply to this command has not been sent');
+    }
+    await this.replyMessage.delete();
+    this.replyMessage = null;
+  }
+
+  async showModal() {
+    throw new Error("Modals can't be shown for commands run from a message");
+  }
+
+  private send(
+    options: string | InteractionReplyOptions | InteractionEditReplyOptions,
+    ephemeral: boolean
+  ) {
+    if (ephemeral && this.message.inGuild())
+      return this.message.author
+        .send(toMessageOptions(options))
+        .catch(() => this.message.reply(toMessageOptions(options)));
+    return this.message.reply(toMessageOptions(options));
+  }
+}
+
+export function isPrefixCommandInteraction(
+  interaction: unknown
+): interaction is PrefixCommandInteraction {
+  return interaction instanceof PrefixCommandInteraction;
+}
@@ -1,7 +1,9 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import {
+  Attachment,
   AutocompleteInteraction,
   ChatInputCommandInteraction,
+  InteractionReplyOptions,
   InteractionType,
   SlashCommandAttachmentOption,
   SlashCommandBooleanOption,
@@ -18,6 +20,8 @@ import {
 import {
   LocalizationMap,
   ApplicationCommandOptionType,
+  ApplicationIntegrationType,
+  InteractionContextType,
 } from 'discord-api-types/v10';
 import { SlashasaurusClient } from './SlashasaurusClient';
 import {
@@ -26,7 +30,26 @@ import {
   MaybePromise,
 } from './utilityTypes';
 import { ApplicationCommandOptionData, OptionsDataArray } from './OptionTypes';
-import { ValidationError } from './CustomErrors';
+import {
+  AttachmentConstraints,
+  checkAttachmentConstraints,
+} from './Attachments';
+import { AutocompleteResult } from './Autocomplete';
+import { AutoDeferSetting } from './AutoDefer';
+import { CooldownOptions } from './Cooldowns';
+import { OptionValidationIssue, ValidationError } from './CustomErrors';
+import {
+  CommandContext,
+  Middleware,
+  MiddlewareContext,
+} from './MiddlewarePipeline';
+import { Precondition } from './Preconditions';
+import { isPrefixCommandInteraction } from './PrefixCommands';
+import {
+  assertNoDefinitionIssues,
+  validateChatCommandInfo,
+  validateCommandSize,
+} from './CommandValidation';
 
 type ChatCommandOptions<T extends OptionsDataArray> = {
   name: string;
@@ -35,7 +58,51 @@ type ChatCommandOptions<T extends OptionsDataArray> = {
   descriptionLocalizations?: LocalizationMap;
   options: T;
   defaultMemberPermissions?: string | number | bigint;
+  /**
+   * @deprecated Use `contexts` instead
+   */
   dmPermission?: boolean;
+  /**
+   * Where the app has to be installed for this command to be available, only used on top level commands
+   */
+  integrationTypes?: ApplicationIntegrationType[];
+  /**
+   * Where this command can be used, only used on top level commands
+   */
+  contexts?: InteractionContextType[];
+  /**
+   * Turns failed option validators into the reply sent to the user, this
+   * overrides the formatter set on the client
+   */
+  formatValidationErrors?: ValidationErrorFormatter;
+  /**
+   * Stops this command from being used again until the cooldown is over. It
+   * starts once the preconditions pass, before the options are validated and
+   * transformed.
+   */
+  cooldown?: CooldownOptions;
+  /**
+   * Checks that have to pass before this command runs, these run after the
+   * preconditions of the `_meta` files above this command
+   */
+  preconditions?: Precondition[];
+  /**
+   * Defers the reply if the command takes too long to respond, this
+   * overrides the client's `autoDefer` setting
+   */
+  autoDefer?: AutoDeferSetting;
+  /**
+   * Middleware that only runs for this command. It runs inside of the
+   * client's command middleware and the `_middleware` files above this
+   * command. What these add to the context is known in `run`.
+   */
+  middleware?: readonly CommandMiddleware<T>[];
+  /**
+   * Checks the options against each other, e.g. that an end date is after a
+   * start date. This runs after every option passed its own validator and was
+   * transformed.
+   */
+  validate?: CommandValidator<T>;
 };
 
 export type CommandGroupMetadata = {
@@ -43,7 +110,22 @@ export type CommandGroupMetadata = {
   description: string;
   descriptionLocalizations?: LocalizationMap;
   defaultMemberPermissions?: string | number | bigint;
+  /**
+   * @deprecated Use `contexts` instead
+   */
   dmPermission?: boolean;
+  /**
+   * Where the app has to be installed for this command to be available, only used on top level commands
+   */
+  integrationTypes?: ApplicationIntegrationType[];
+  /**
+   * Where this command can be used, only used on top level commands
+   */
+  contexts?: InteractionContextType[];
+  /**
+   * Checks that have to pass before any of the subcommands run
+   */
+  preconditions?: Precondition[];
 };
 
 export function isCommandGroupMetadata(arg: any): arg is CommandGroupMetadata {
@@ -61,14 +143,52 @@ export function isCommandGroupMetadata(arg: any): arg is CommandGroupMetadata {
     )
       return false;
     if (key === 'dmPermission' && typeof arg[key] !== 'boolean') return false;
+    if (
+      (key === 'integrationTypes' ||
+        key === 'contexts' ||
+        key === 'preconditions') &&
+      !Array.isArray(arg[key])
+    )
+      return false;
   }
   return true;
 }
 
-export type CommandRunFunction<T extends OptionsDataArray> = (
+export type ValidationErrorFormatter = (
+  issues: OptionValidationIssue[],
+  interaction: ChatInputCommandInteraction
+) => MaybePromise<string | InteractionReplyOptions>;
+
+/**
+ * Replies with every validation message on its own line, only visible to the user
+ */
+export const defaultValidationErrorFormatter: ValidationErrorFormatter = (
+  issues
+) => ({
+  content: issues.map((issue) => issue.message).join('\n'),
+  ephemeral: true,
+});
+
+/**
+ * @returns The error message for each invalid option, or nothing if the options are valid
+ */
+export type CommandValidator<T extends OptionsDataArray> = (
+  options: CommandOptionsObject<T>,
+  interaction: ChatInputCommandInteraction
+) => MaybePromise<Partial<Record<T[number]['name'], string>> | void>;
+
+/**
+ * @typeParam C What the command's own middleware add to the context
+ */
+export type CommandRunFunction<
+  T extends OptionsDataArray,
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  C = {}
+> = (
   interaction: ChatInputCommandInteraction,
   client: SlashasaurusClient,
-  options: CommandOptionsObject<T>
+  options: CommandOptionsObject<T>,
+  ctx: Partial<CommandContext> & C
 ) => void;
 
 export type AutocompleteFunction<T extends OptionsDataArray> = (
@@ -76,18 +196,26 @@ export type AutocompleteFunction<T extends OptionsDataArray> = (
   focusedName: MapOptionsToAutocompleteNames<T>,
   focusedValue: string | number,
   client: SlashasaurusClient,
-  options: Partial<CommandOptionsObject<T>>
-) => void;
+  options: Partial<CommandOptionsObject<T>>,
+  ctx: Partial<CommandContext>
+) => MaybePromise<AutocompleteResult>;
+
+// Command middleware that can add anything to the context
+type CommandMiddleware<T extends OptionsDataArray> = Middleware<
+  CommandRunFunction<T>,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  any
+>;
 
-type HandlersType<T extends OptionsDataArray> =
+type HandlersType<T extends OptionsDataArray, C> =
   MapOptionsToAutocompleteNames<T> extends never
     ? {
-        run: CommandRunFunction<T>;
+        run: CommandRunFunction<T, C>;
       }
-    : HandlersWithAutoComplete<T>;
+    : HandlersWithAutoComplete<T, C>;
 
-type HandlersWithAutoComplete<T extends OptionsDataArray> = {
-  run: CommandRunFunction<T>;
+type HandlersWithAutoComplete<T extends OptionsDataArray, C> = {
+  run: CommandRunFunction<T, C>;
   autocomplete: AutocompleteFunction<T>;
 };
 
@@ -95,7 +223,10 @@ export function isChatCommand(command: any): command is SlashCommand<any> {
   return command instanceof SlashCommand;
 }
 
-export class SlashCommand<const T extends OptionsDataArray> {
+export class SlashCommand<
+  const T extends OptionsDataArray,
+  const M extends readonly CommandMiddleware<T>[] = readonly CommandMiddleware<T>[]
+> {
   commandInfo: ChatCommandOptions<T> & { type: string };
   validatorsMap: Map<
     string,
@@ -104,7 +235,13 @@ export class SlashCommand<const T extends OptionsDataArray> {
       value: any
     ) => MaybePromise<boolean | string>
   > = new Map();
-  transformersMap: Map<string, (value: any) => MaybePromise<any>> = new Map();
+  transformersMap: Map<
+    string,
+    (
+      value: any,
+      interaction: ChatInputCommandInteraction | AutocompleteInteraction
+    ) => MaybePromise<any>
+  > = new Map();
   autocompleteMap: Map<
     string,
     (
@@ -119,7 +256,12 @@ export class SlashCommand<const T extends OptionsDataArray> {
    * @param commandInfo The general info for the command
    * @param handlers
    */
-  constructor(commandInfo: ChatCommandOptions<T>, handlers: HandlersType<T>) {
+  constructor(
+    commandInfo: Omit<ChatCommandOptions<T>, 'middleware'> & {
+      middleware?: M;
+    },
+    handlers: HandlersType<T, MiddlewareContext<M>>
+  ) {
     this.commandInfo = {
       ...commandInfo,
       type: 'CHAT_INPUT',
@@ -139,7 +281,8 @@ export class SlashCommand<const T extends OptionsDataArray> {
   run(
     interaction: ChatInputCommandInteraction,
     _client: SlashasaurusClient,
-    _options: CommandOptionsObject<T>
+    _options: CommandOptionsObject<T>,
+    _ctx: Partial<CommandContext>
   ) {
     interaction.reply({
       content: 'This command is not implemented yet',
@@ -152,7 +295,8 @@ export class SlashCommand<const T extends OptionsDataArray> {
     _focusedName: MapOptionsToAutocompleteNames<T>,
     _focusedValue: string | number,
     _client: SlashasaurusClient,
-    _options: Partial<CommandOptionsObject<T>>
+    _options: Partial<CommandOptionsObject<T>>,
+    _ctx: Partial<CommandContext>
   ) {
     interaction.respond([
       {
@@ -164,7 +308,7 @@ export class SlashCommand<const T extends OptionsDataArray> {
 
   async validateAndTransformOptions(
     interaction: ChatInputCommandInteraction
-  ): Promise<CommandOptionsObject<T> | string[]>;
+  ): Promise<CommandOptionsObject<T> | OptionValidationIssue[]>;
   async validateAndTransformOptions(
     interaction: AutocompleteInteraction,
     skipRequiredCheck: boolean,
@@ -174,8 +318,15 @@ export class SlashCommand<const T extends OptionsDataArray> {
     interaction: ChatInputCommandInteraction | AutocompleteInteraction,
     skipRequiredCheck = false,
     skipValidationAndTransformation = false
-  ): Promise<CommandOptionsObject<T> | string[]> {
-    const errors: string[] = [];
+  ): Promise<CommandOptionsObject<T> | OptionValidationIssue[]> {
+    if (isPrefixCommandInteraction(interaction)) {
+      // Prefix commands have to parse and fetch their options first
+      const issues = await interaction.options.resolve(
+        this.commandInfo.options
+      );
+      if (issues.length > 0) return issues;
+    }
+    const errors: OptionValidationIssue[] = [];
     const values: Record<string, ReturnType<typeof getCommandDataForType>> = {};
     for (const option of this.commandInfo.options) {
       // Get the option data
@@ -194,6 +345,14 @@ export class SlashCommand<const T extends OptionsDataArray> {
               skipRequiredCheck ? false : option.required ?? false
             );
 
+      if (value === null && option.default !== undefined) {
+        value = (
+          typeof option.default === 'function'
+            ? await option.default(interaction)
+            : option.default
+        ) as ReturnType<typeof getCommandDataForType>;
+      }
+
       // If the value is undefined, assign early and continue to skip the rest of the validation and transformation
       if (value === null) {
         values[option.name] = null;
@@ -205,11 +364,24 @@ export class SlashCommand<const T extends OptionsDataArray> {
         continue;
       }
 
+      // Check the limits set on attachment options
+      if (value instanceof Attachment) {
+        const problem = checkAttachmentConstraints(
+          option.name,
+          value,
+          option as AttachmentConstraints
+        );
+        if (problem) {
+          errors.push({ option: option.name, value, message: problem });
+          continue;
+        }
+      }
+
       // Check if the option has a validator
       let isValid = true;
       if (
         this.validatorsMap.has(option.name) &&
-        interaction instanceof ChatInputCommandInteraction
+        interaction.type === InteractionType.ApplicationCommand
       ) {
         // Run the validator
         const validator = this.validatorsMap.get(option.name);
@@ -218,13 +390,18 @@ export class SlashCommand<const T extends OptionsDataArray> {
         try {
           const validateResult = await validator(interaction, value);
           if (typeof validateResult === 'string') {
-            errors.push(validateResult);
+            errors.push({
+              option: option.name,
+              value,
+              message: validateResult,
+            });
             isValid = false;
           }
         } catch (e) {
           if (e instanceof ValidationError) {
             // This threw a validation error, add the message to our errors array
-            errors.push(e.message);
+            errors.push({ option: option.name, value, message: e.message });
+            isValid = false;
           } else {
             // This threw a different error, throw it
             throw e;
@@ -240,13 +417,42 @@ export class SlashCommand<const T extends OptionsDataArray> {
         const transformer = this.transformersMap.get(option.name);
         if (!transformer)
           throw new Error(`Transformer for ${option.name} not found`);
-        value = await transformer(value);
+        try {
+          value = await transformer(value, interaction);
+        } catch (e) {
+          if (!(e instanceof ValidationError)) throw e;
+          if (interaction.type === InteractionType.ApplicationCommand) {
+            // Report this the same way as a failed validator
+            errors.push({ option: option.name, value, message: e.message });
+          } else {
+            // Autocomplete can't show errors, so act like the option is empty
+            values[option.name] = null;
+          }
+          continue;
+        }
       }
 
       // Add the value to the values object
       values[option.name] = value;
     }
     if (errors.length > 0) return errors;
+
+    // Check the options against each other once they're all valid
+    if (
+      this.commandInfo.validate &&
+      !skipValidationAndTransformation &&
+      interaction.type === InteractionType.ApplicationCommand
+    ) {
+      const optionErrors = await this.commandInfo.validate(
+        values as CommandOptionsObject<T>,
+        interaction
+      );
+      for (const [option, message] of Object.entries(optionErrors ?? {})) {
+        if (typeof message === 'string')
+          errors.push({ option, value: values[option], message });
+      }
+      if (errors.length > 0) return errors;
+    }
     return values as CommandOptionsObject<T>;
   }
 }
@@ -319,6 +525,9 @@ function getAutocompleteDataForType(
 export function populateBuilder<
   T extends SlashCommandBuilder | SlashCommandSubcommandBuilder
 >(info: ChatCommandOptions<[]>, builder: T) {
+  // Check everything up front so that mistakes are reported with the
+  // command and option names instead of as an error from the builders
+  assertNoDefinitionIssues(validateChatCommandInfo(info));
   builder
     .setName(info.name)
     .setNameLocalizations(info.nameLocalizations ?? null)
@@ -328,6 +537,9 @@ export function populateBuilder<
     builder
       .setDefaultMemberPermissions(info.defaultMemberPermissions)
       .setDMPermission(info.dmPermission);
+    if (info.integrationTypes)
+      builder.setIntegrationTypes(info.integrationTypes);
+    if (info.contexts) builder.setContexts(info.contexts);
   }
   info.options.forEach((option: ApplicationCommandOptionData) => {
     let string,
@@ -417,7 +629,6 @@ export function populateBuilder<
           .setDescriptionLocalizations(option.descriptionLocalizations ?? null)
           .setRequired(option.required ?? false);
         if (option.channelTypes) {
-          // @ts-expect-error I need to PR this to discord.js to allow forums as a channel type
           channel.addChannelTypes(...option.channelTypes);
         }
         builder.addChannelOption(channel);
@@ -478,5 +689,7 @@ export function populateBuilder<
         break;
     }
   });
+  if (builder instanceof SlashCommandBuilder)
+    assertNoDefinitionIssues(validateCommandSize(builder.toJSON()));
   return builder;
 }
\ No newline at end of file
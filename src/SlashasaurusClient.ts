@@ -4,8 +4,12 @@ import {
   SlashCommandSubcommandBuilder,
   SlashCommandSubcommandGroupBuilder,
 } from '@discordjs/builders';
-import { REST } from '@discordjs/rest';
-import { ApplicationCommandType, Routes } from 'discord-api-types/v10';
+import {
+  ApplicationCommandType,
+  InteractionContextType,
+  PermissionFlagsBits,
+  RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
 import {
   AutocompleteInteraction,
   Awaitable,
@@ -27,15 +31,16 @@ import {
   InteractionWebhook,
   MentionableSelectMenuInteraction,
   Message,
+  MessageFlags,
   MessageComponentInteraction,
   ModalSubmitInteraction,
   RoleSelectMenuInteraction,
   SelectMenuInteraction,
-  TextBasedChannel,
+  SendableChannels,
   UserSelectMenuInteraction,
 } from 'discord.js';
 import { readdir, stat } from 'fs/promises';
-import { join } from 'path';
+import { join, resolve, sep } from 'path';
 import {
   ContextMenuHandlerType,
   isMessageCommand,
@@ -43,6 +48,43 @@ import {
   MessageCommand,
   UserCommand,
 } from './ContextMenuBase';
+import {
+  CommandManifest,
+  createCommandManifest,
+  diffCommandManifests,
+} from './CommandManifest';
+import {
+  CommandDiff,
+  diffCommands,
+  formatCommandDiff,
+  hasChanges,
+  syncCommands,
+} from './CommandSync';
+import {
+  assertNoDefinitionIssues,
+  collectDefinitionIssues,
+  validateCommandGroupInfo,
+  validateCommandSize,
+  validateContextMenuInfo,
+} from './CommandValidation';
+import { AutoDeferSetting, enableAutoDefer } from './AutoDefer';
+import { respondWithChoices } from './Autocomplete';
+import {
+  CooldownFormatter,
+  CooldownOptions,
+  CooldownStore,
+  defaultCooldownFormatter,
+  getCooldownKey,
+  MemoryCooldownStore,
+} from './Cooldowns';
+import { CommandDefinitionIssue } from './CustomErrors';
+import { clearModuleCache, FolderWatcher, watchFolder } from './HotReload';
+import {
+  instrument,
+  Instrumentation,
+  InstrumentationLabels,
+  InstrumentedOperation,
+} from './Instrumentation';
 import { Middleware, Pipeline } from './MiddlewarePipeline';
 import {
   compareMessages,
@@ -50,20 +92,37 @@ import {
   DeserializeStateFn,
   isPage,
   Page,
+  PageComponentHandlerFunction,
+  PageComponentInteraction,
   pageComponentRowsToComponents,
   PageInteractionReplyMessage,
 } from './Page';
 import { PingableTimedCache } from './PingableTimedCache';
+import {
+  defaultPreconditionFailureFormatter,
+  Precondition,
+  PreconditionFailureFormatter,
+  runPreconditions,
+} from './Preconditions';
+import {
+  isPrefixCommandInteraction,
+  parsePrefixArguments,
+  PrefixCommandInteraction,
+  PrefixCommandOptionResolver,
+  PrefixSetting,
+} from './PrefixCommands';
 import {
   AutocompleteFunction,
   CommandGroupMetadata,
   CommandRunFunction,
+  defaultValidationErrorFormatter,
   isChatCommand,
   isCommandGroupMetadata,
   populateBuilder,
   SlashCommand,
+  ValidationErrorFormatter,
 } from './SlashCommandBase';
-import { TemplateModal } from './TemplateModal';
+import { ModalHandlerFunction, TemplateModal } from './TemplateModal';
 import { MaybePromise } from './utilityTypes';
 
 interface SlashasaurusClientEvents extends ClientEvents {
@@ -77,6 +136,7 @@ interface SlashasaurusClientEvents extends ClientEvents {
   roleSelectChanged: [interaction: RoleSelectMenuInteraction];
   channelSelectChanged: [interaction: ChannelSelectMenuInteraction];
   mentionableSelectChanged: [interaction: MentionableSelectMenuInteraction];
+  commandError: [error: unknown, interaction: Interaction, kind: HandlerKind];
 }
 
 const JSFileRegex = /(?<!\.d)(\.js|\.ts)x?$/;
@@ -128,6 +188,23 @@ type GetPageStateFn = (messageId: string) => MaybePromise<{
   messageData: string;
 }>;
 
+/**
+ * The kind of handler that threw an error
+ */
+export type HandlerKind =
+  | 'command'
+  | 'autocomplete'
+  | 'contextMenu'
+  | 'pageComponent'
+  | 'modal';
+
+export type ErrorHandlerFn = (
+  error: unknown,
+  interaction: Interaction,
+  kind: HandlerKind,
+  client: SlashasaurusClient
+) => MaybePromise<void>;
+
 export interface SlashasaurusClientOptions {
   /**
    * You can pass any logger compatible with [pino](https://getpino.io/)
@@ -157,6 +234,166 @@ export interface SlashasaurusClientOptions {
    * Whether or not to skip validating and transforming options for autocomplete handlers. Defaults to false.
    */
   skipValidationAndTransformationForAutocomplete?: boolean;
+
+  /**
+   * Enables watch mode for development. The folders passed to
+   * `registerCommandsFrom`, `registerGuildCommandsFrom`, `registerPagesFrom`
+   * and `registerModalsFrom` will be watched, and changed files will be
+   * re-imported without restarting the bot. Files outside of those folders
+   * aren't watched, changes to them need a restart.
+   */
+  hotReload?: HotReloadOptions;
+
+  /**
+   * Turns failed option validators into the reply sent to the user. This can
+   * be overridden per command with `formatValidationErrors`. Defaults to
+   * {@link defaultValidationErrorFormatter}.
+   */
+  formatValidationErrors?: ValidationErrorFormatter;
+
+  /**
+   * Where command cooldowns are kept. Defaults to a {@link MemoryCooldownStore},
+   * pass your own store to share cooldowns between shards.
+   */
+  cooldownStore?: CooldownStore;
+
+  /**
+   * Creates the reply sent when a command is on cooldown. Defaults to
+   * {@link defaultCooldownFormatter}.
+   */
+  formatCooldown?: CooldownFormatter;
+
+  /**
+   * Creates the reply sent when a precondition fails. Defaults to
+   * {@link defaultPreconditionFailureFormatter}.
+   */
+  formatPreconditionFailure?: PreconditionFailureFormatter;
+
+  /**
+   * The default `autoDefer` setting for commands, pages, and modals. When
+   * enabled, interactions that haven't been responded to after a threshold
+   * are deferred, and `reply` calls edit the deferred reply instead. This is
+   * off by default.
+   */
+  autoDefer?: AutoDeferSetting;
+
+  /**
+   * Called when a command, autocomplete, context menu, page component, or
+   * modal handler throws. This includes validators, transformers, and
+   * middleware. Defaults to {@link defaultErrorHandler}.
+   */
+  onError?: ErrorHandlerFn;
+
+  /**
+   * Times command handlers, page loads, renders, edits, and state writes, and
+   * reports whether they failed. Use a {@link MemoryInstrumentation} to export
+   * the results to Prometheus.
+   */
+  instrumentation?: Instrumentation;
+
+  /**
+   * Lets chat commands also be run from messages that start with this prefix,
+   * e.g. `!ban @user reason:spam`. The command gets a
+   * {@link PrefixCommandInteraction} in place of the interaction. Commands
+   * only run where the user could run them as slash commands, going by where
+   * they're registered, their contexts, and their default member permissions.
+   * This needs the `GuildMessages` and `MessageContent` intents (and
+   * `DirectMessages` for DMs).
+   */
+  prefix?: PrefixSetting;
+}
+
+export interface HotReloadOptions {
+  /**
+   * The guild your development commands are registered to with
+   * `registerGuildCommandsFrom`. When the shape of a command in that folder
+   * changes, the commands will be re-synced to this guild.
+   */
+  devGuildId?: string;
+
+  /**
+   * The bot token, this is needed to re-sync commands to the dev guild
+   */
+  token?: string;
+}
+
+export interface RegisterCommandsOptions {
+  /**
+   * If this is true the currently registered commands will be fetched and
+   * compared, but nothing will be written. Defaults to false.
+   */
+  dryRun?: boolean;
+
+  /**
+   * The id of the application to deploy the commands to. This defaults to the
+   * application of the logged in client, so it's only needed when deploying
+   * without logging in.
+   */
+  applicationId?: string;
+}
+
+export interface CommandScopeOptions {
+  /**
+   * The guild this command should be deployed to, if this is left out the
+   * command will be deployed globally
+   */
+  guildId?: string;
+}
+
+export interface CommandGroupOptions extends CommandScopeOptions {
+  /**
+   * Runs for every subcommand of this command, like a `_middleware` file in the command's folder
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  middleware?: Middleware<CommandRunFunction<[]>, any>[];
+}
+
+export type DeployCommandsOptions = RegisterCommandsOptions &
+  CommandScopeOptions;
+
+export interface CommandFolderDiff extends CommandDiff {
+  /**
+   * The differences for each `guilds/<guildId>` folder, keyed by the guild id
+   */
+  guilds: Record<string, CommandDiff>;
+}
+
+export interface SubcommandGroup {
+  name: string;
+  metadata: CommandGroupMetadata;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  subcommands: SlashCommand<any>[];
+  /**
+   * Runs for every subcommand in this group, like a `_middleware` file in the group's folder
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  middleware?: Middleware<CommandRunFunction<[]>, any>[];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type SubcommandGroupChild = SlashCommand<any> | SubcommandGroup;
+
+const GLOBAL_SCOPE = 'global';
+const COMMAND_FOLDERS = ['chat', 'user', 'message'];
+
+interface CommandKeys {
+  chat: string[];
+  user: string[];
+  message: string[];
+}
+
+interface CommandEntries {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  chat: [string, SlashCommand<any>][];
+  user: [string, UserCommand][];
+  message: [string, MessageCommand][];
+}
+
+interface CommandRoot {
+  folderPath: string;
+  guildId?: string;
+  commandData: (SlashCommandBuilder | ContextMenuCommandBuilder)[];
+  keys: CommandKeys;
 }
 
 interface LogFn {
@@ -177,6 +414,37 @@ interface PageMapStorage {
   deserialize: DeserializeStateFn;
 }
 
+/**
+ * Logs the error and lets the user know something went wrong. The reply is
+ * ephemeral, and is sent as a follow up if the interaction was already
+ * replied to or deferred. Autocomplete interactions get an empty list.
+ */
+export async function defaultErrorHandler(
+  error: unknown,
+  interaction: Interaction,
+  kind: HandlerKind,
+  client: SlashasaurusClient
+) {
+  client.logger?.error(
+    error as object,
+    `Error while running ${kind} handler for interaction ${interaction.id}`
+  );
+  if (interaction.isAutocomplete()) {
+    if (!interaction.responded) await interaction.respond([]);
+    return;
+  }
+  if (!interaction.isRepliable()) return;
+  const message = {
+    content: 'Something went wrong while handling this interaction.',
+    ephemeral: true,
+  };
+  if (interaction.replied || interaction.deferred) {
+    await interaction.followUp(message);
+  } else {
+    await interaction.reply(message);
+  }
+}
+
 async function defaultPageStore() {
   throw new Error(
     `You must implement storePageState and getPageState in order to use pages`
@@ -206,13 +474,37 @@ export class SlashasaurusClient extends Client<true> {
   private pageMap = new Map<string, PageMapStorage>();
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private modalMap = new Map<string, TemplateModal<any, any>>();
+  private commandData = new Map<
+    string,
+    (SlashCommandBuilder | ContextMenuCommandBuilder)[]
+  >();
   private skipAutocompleteValidationAndTransformation: boolean;
+  private hotReload?: HotReloadOptions;
+  private watchers: FolderWatcher[] = [];
+  private onError: ErrorHandlerFn;
+  private formatValidationErrors: ValidationErrorFormatter;
+  private cooldownStore: CooldownStore;
+  private formatCooldown: CooldownFormatter;
+  private formatPreconditionFailure: PreconditionFailureFormatter;
+  private autoDefer?: AutoDeferSetting;
+  private instrumentation?: Instrumentation;
+  private prefix?: PrefixSetting;
+  // The preconditions from `_meta` files, keyed by `name` and `name.group`
+  private groupPreconditions = new Map<string, Precondition[]>();
+  // The middleware from `_middleware` files, keyed the same way
+  private groupMiddleware = new Map<
+    string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    Middleware<CommandRunFunction<[]>, any>[]
+  >();
   logger?: Logger;
   chatCommandMiddleware = new Pipeline<CommandRunFunction<[]>>();
   autocompleteMiddleware = new Pipeline<AutocompleteFunction<[]>>();
   contextMenuMiddleware = new Pipeline<
     ContextMenuHandlerType<'MESSAGE'> | ContextMenuHandlerType<'USER'>
   >();
+  pageMiddleware = new Pipeline<PageComponentHandlerFunction>();
+  modalMiddleware = new Pipeline<ModalHandlerFunction>();
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   activePages: PingableTimedCache<Page<any, any>>;
@@ -230,13 +522,38 @@ export class SlashasaurusClient extends Client<true> {
     this.getPageState = options.getPageState ?? defaultPageGet;
     this.skipAutocompleteValidationAndTransformation =
       options.skipValidationAndTransformationForAutocomplete ?? false;
+    if (options.hotReload) this.hotReload = options.hotReload;
+    this.onError = options.onError ?? defaultErrorHandler;
+    this.formatValidationErrors =
+      options.formatValidationErrors ?? defaultValidationErrorFormatter;
+    this.cooldownStore = options.cooldownStore ?? new MemoryCooldownStore();
+    this.formatCooldown = options.formatCooldown ?? defaultCooldownFormatter;
+    this.formatPreconditionFailure =
+      options.formatPreconditionFailure ?? defaultPreconditionFailureFormatter;
+    if (options.autoDefer) this.autoDefer = options.autoDefer;
+    if (options.instrumentation) this.instrumentation = options.instrumentation;
     this.on('interactionCreate', this.handleInteractionEvent);
+    if (options.prefix) {
+      this.prefix = options.prefix;
+      this.on('messageCreate', this.handleMessageEvent);
+    }
   }
 
   /**
    * Registers all command files in the given path
    *
+   * Commands that should only exist in specific guilds can be put in a
+   * `guilds/<guildId>` folder next to the `chat/`, `user/` and `message/`
+   * folders, using the same layout. Each guild's commands are routed
+   * separately, so different guilds can have commands with the same name, and
+   * a guild command can share its name with a global one.
+   *
+   * When `register` is true, every global command (including ones registered
+   * with {@link registerCommand} and {@link registerCommandGroup}) is deployed
+   * with {@link deployCommands}, followed by the commands of each guild folder.
+   *
    * @param folderPath The relative path to the folder
+   * @returns The differences between the registered commands and the loaded ones
    */
   async registerCommandsFrom(
     folderPath: string,
@@ -245,51 +562,45 @@ export class SlashasaurusClient extends Client<true> {
   async registerCommandsFrom(
     folderPath: string,
     register: true,
-    token: string
-  ): Promise<void>;
+    token: string,
+    options?: RegisterCommandsOptions
+  ): Promise<CommandFolderDiff>;
   async registerCommandsFrom(
     folderPath: string,
     register: boolean,
-    token?: string
-  ): Promise<void> {
+    token?: string,
+    options: RegisterCommandsOptions = {}
+  ): Promise<CommandFolderDiff | void> {
     this.logger?.info('Registering global commands');
-    const topLevelFolders = await readdir(folderPath);
-
-    const commandData: (SlashCommandBuilder | ContextMenuCommandBuilder)[] = [];
-
-    for (const folderName of topLevelFolders) {
-      switch (folderName) {
-        case 'chat':
-          commandData.push(
-            ...(await this.loadTopLevelCommands(join(folderPath, folderName)))
-          );
-          break;
-        case 'message':
-          commandData.push(
-            ...(await this.loadMessageCommands(join(folderPath, folderName)))
-          );
-          break;
-        case 'user':
-          commandData.push(
-            ...(await this.loadUserCommands(join(folderPath, folderName)))
-          );
-          break;
-      }
-    }
-
-    this.logger?.debug(commandData);
+    await this.loadCommandRoot(folderPath);
+    const guildIds = await this.loadGuildCommandRoots(folderPath);
 
+    let diff: CommandFolderDiff | undefined;
     if (register && token) {
-      const rest = new REST({ version: '10' }).setToken(token);
-
-      await rest.put(Routes.applicationCommands(this.application.id), {
-        body: commandData.map((c) => c.toJSON()),
-      });
+      diff = { ...(await this.deployCommands(token, options)), guilds: {} };
+      for (const guildId of guildIds) {
+        diff.guilds[guildId] = await this.deployCommands(token, {
+          ...options,
+          guildId,
+        });
+      }
     }
 
     this.logger?.info('Finished registering global commands');
+    return diff;
   }
 
+  /**
+   * Registers all command files in the given path to a single guild
+   *
+   * When `register` is true, every command for this guild (including ones
+   * registered with {@link registerCommand} and {@link registerCommandGroup})
+   * is deployed with {@link deployCommands}.
+   *
+   * @param folderPath The relative path to the folder
+   * @param guildId The id of the guild to register the commands to
+   * @returns The differences between the registered commands and the loaded ones
+   */
   async registerGuildCommandsFrom(
     folderPath: string,
     guildId: string,
@@ -299,71 +610,342 @@ export class SlashasaurusClient extends Client<true> {
     folderPath: string,
     guildId: string,
     register: true,
-    token: string
-  ): Promise<void>;
+    token: string,
+    options?: RegisterCommandsOptions
+  ): Promise<CommandDiff>;
   async registerGuildCommandsFrom(
     folderPath: string,
     guildId: string,
     register: boolean,
-    token?: string
-  ): Promise<void> {
+    token?: string,
+    options: RegisterCommandsOptions = {}
+  ): Promise<CommandDiff | void> {
     this.logger?.info(`Registering guild commands to ${guildId}`);
+    await this.loadCommandRoot(folderPath, guildId);
+
+    let diff: CommandDiff | undefined;
+    if (register && token) {
+      diff = await this.deployCommands(token, { ...options, guildId });
+    }
+
+    this.logger?.info(`Finished registering guild commands to ${guildId}`);
+    return diff;
+  }
+
+  /**
+   * Registers a single command from code, this works the same as if the
+   * command was the default export of a file in the `chat/`, `user/` or
+   * `message/` folder.
+   *
+   * @param command The command to register
+   * @param options Where the command should be deployed
+   * @returns The builder that will be deployed for this command
+   */
+  registerCommand(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    command: SlashCommand<any> | UserCommand | MessageCommand,
+    options: CommandScopeOptions = {}
+  ) {
+    // The command is built first so one that fails validation is never routed
+    let builder: SlashCommandBuilder | ContextMenuCommandBuilder;
+    if (isUserCommand(command)) {
+      builder = buildContextMenuCommand(
+        command.commandInfo,
+        ApplicationCommandType.User
+      );
+      this.addUserCommand(command, options.guildId);
+    } else if (isMessageCommand(command)) {
+      builder = buildContextMenuCommand(
+        command.commandInfo,
+        ApplicationCommandType.Message
+      );
+      this.addMessageCommand(command, options.guildId);
+    } else {
+      builder = populateBuilder(command.commandInfo, new SlashCommandBuilder());
+      this.addChatCommand(
+        command,
+        routeKey(command.commandInfo.name, options.guildId)
+      );
+    }
+    this.addCommandData([builder], options.guildId);
+    this.logger?.debug(`Registered command ${command.commandInfo.name}`);
+    return builder;
+  }
+
+  /**
+   * Registers a chat command with subcommands from code, this works the same
+   * as a folder inside of the `chat/` folder. The subcommands will be routed
+   * as `name.subcommand` and `name.group.subcommand`.
+   *
+   * @param name The name of the command
+   * @param metadata The info that would normally be in the `_meta` file
+   * @param children The subcommands and subcommand groups of this command
+   * @param options Where the command should be deployed, and middleware for every subcommand
+   * @returns The builder that will be deployed for this command
+   */
+  registerCommandGroup(
+    name: string,
+    metadata: CommandGroupMetadata,
+    children: SubcommandGroupChild[],
+    options: CommandGroupOptions = {}
+  ) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const routes: [string, SlashCommand<any>][] = [];
+    const key = routeKey(name, options.guildId);
+    const commandData = children.map((child) => {
+      if (isChatCommand(child)) {
+        routes.push([key + '.' + child.commandInfo.name, child]);
+        return populateBuilder(
+          child.commandInfo,
+          new SlashCommandSubcommandBuilder()
+        );
+      }
+      const subcommands = child.subcommands.map((subcommand) => {
+        routes.push([
+          key + '.' + child.name + '.' + subcommand.commandInfo.name,
+          subcommand,
+        ]);
+        return populateBuilder(
+          subcommand.commandInfo,
+          new SlashCommandSubcommandBuilder()
+        );
+      });
+      return buildSubcommandGroup(child.name, child.metadata, subcommands);
+    });
+    const builder = buildCommandGroup(name, metadata, commandData);
+    // Only routed once the whole group was built and validated
+    this.addChatCommands(routes);
+    this.groupPreconditions.set(key, metadata.preconditions ?? []);
+    this.groupMiddleware.set(key, options.middleware ?? []);
+    children.forEach((child) => {
+      if (isChatCommand(child)) return;
+      this.groupPreconditions.set(
+        key + '.' + child.name,
+        child.metadata.preconditions ?? []
+      );
+      this.groupMiddleware.set(key + '.' + child.name, child.middleware ?? []);
+    });
+    this.addCommandData([builder], options.guildId);
+    this.logger?.debug(`Registered command group ${name}`);
+    return builder;
+  }
+
+  /**
+   * Deploys every command that has been registered so far, both from folders
+   * and from code. The currently registered commands are fetched first and the
+   * commands are only overwritten if something changed.
+   *
+   * @param token The bot token
+   * @returns The differences between the registered commands and the deployed ones
+   */
+  async deployCommands(
+    token: string,
+    options: DeployCommandsOptions = {}
+  ): Promise<CommandDiff> {
+    const { guildId, dryRun } = options;
+    // The application is only available once the client has logged in
+    const applicationId = options.applicationId ?? this.application?.id;
+    if (!applicationId)
+      throw new Error(
+        'You must pass an applicationId to deploy commands before the client has logged in'
+      );
+    const commandData = this.commandData.get(guildId ?? GLOBAL_SCOPE) ?? [];
+    const diff = await syncCommands({
+      token,
+      applicationId,
+      guildId,
+      commands: commandData.map((c) => c.toJSON()),
+      dryRun,
+    });
+    this.logger?.info(
+      `${dryRun ? 'Dry run of ' : ''}${
+        guildId ? `guild commands for ${guildId}` : 'global commands'
+      }:\n${formatCommandDiff(diff)}`
+    );
+    return diff;
+  }
+
+  /**
+   * Creates a manifest of every command that has been registered so far, both
+   * from folders and from code. The client doesn't need to be logged in, so
+   * this can be used with `registerCommandsFrom(path, false)` in CI.
+   */
+  getCommandManifest(): CommandManifest {
+    let global: RESTPostAPIApplicationCommandsJSONBody[] = [];
+    const guilds: Record<string, RESTPostAPIApplicationCommandsJSONBody[]> = {};
+    this.commandData.forEach((commandData, scope) => {
+      const json = commandData.map((c) => c.toJSON());
+      if (scope === GLOBAL_SCOPE) global = json;
+      else guilds[scope] = json;
+    });
+    return createCommandManifest(global, guilds);
+  }
+
+  /**
+   * Compares a saved manifest to the commands that have been registered so far
+   *
+   * @param saved A manifest that was previously created with {@link getCommandManifest}
+   * @returns The differences between the saved manifest and the current commands
+   */
+  checkCommandManifest(saved: CommandManifest) {
+    return diffCommandManifests(saved, this.getCommandManifest());
+  }
+
+  private addCommandData(
+    commandData: (SlashCommandBuilder | ContextMenuCommandBuilder)[],
+    guildId?: string
+  ) {
+    const scope = guildId ?? GLOBAL_SCOPE;
+    const existing = this.commandData.get(scope) ?? [];
+    this.commandData.set(scope, [...existing, ...commandData]);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private addChatCommand(command: SlashCommand<any>, mapName: string) {
+    this.addChatCommands([[mapName, command]]);
+  }
+
+  /**
+   * Adds every command or none of them, if one of the names is taken
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private addChatCommands(routes: [string, SlashCommand<any>][]) {
+    const names = new Set<string>();
+    routes.forEach(([mapName]) => {
+      if (this.commandMap.has(mapName) || names.has(mapName))
+        throw new Error(`Duplicate command name ${mapName}`);
+      names.add(mapName);
+    });
+    routes.forEach(([mapName, command]) =>
+      this.commandMap.set(mapName, command)
+    );
+  }
+
+  private addUserCommand(command: UserCommand, guildId?: string) {
+    const key = routeKey(command.commandInfo.name, guildId);
+    if (this.userContextMenuMap.has(key))
+      throw new Error(`Duplicate user command name ${key}`);
+    this.userContextMenuMap.set(key, command);
+  }
+
+  private addMessageCommand(command: MessageCommand, guildId?: string) {
+    const key = routeKey(command.commandInfo.name, guildId);
+    if (this.messageContextMenuMap.has(key))
+      throw new Error(`Duplicate message command name ${key}`);
+    this.messageContextMenuMap.set(key, command);
+  }
+
+  /**
+   * Loads the `chat/`, `message/` and `user/` folders. If anything in them
+   * fails to load, none of their commands stay routed.
+   */
+  private async loadCommandsFrom(folderPath: string, guildId?: string) {
+    const keysBefore = this.getCommandKeys();
+    const groupPreconditions = new Map(this.groupPreconditions);
+    const groupMiddleware = new Map(this.groupMiddleware);
+    try {
+      return await this.importCommandsFrom(folderPath, guildId);
+    } catch (e) {
+      this.removeCommandEntries(
+        subtractCommandKeys(this.getCommandKeys(), keysBefore)
+      );
+      this.groupPreconditions = groupPreconditions;
+      this.groupMiddleware = groupMiddleware;
+      throw e;
+    }
+  }
+
+  private async importCommandsFrom(folderPath: string, guildId?: string) {
     const topLevelFolders = await readdir(folderPath);
 
     const commandData: (SlashCommandBuilder | ContextMenuCommandBuilder)[] = [];
+    const issues: CommandDefinitionIssue[] = [];
 
     for (const folderName of topLevelFolders) {
       switch (folderName) {
         case 'chat':
           commandData.push(
-            ...(await this.loadTopLevelCommands(join(folderPath, folderName)))
+            ...(await this.loadTopLevelCommands(
+              join(folderPath, folderName),
+              issues,
+              guildId
+            ))
           );
           break;
         case 'message':
           commandData.push(
-            ...(await this.loadMessageCommands(join(folderPath, folderName)))
+            ...(await this.loadMessageCommands(
+              join(folderPath, folderName),
+              issues,
+              guildId
+            ))
           );
           break;
         case 'user':
           commandData.push(
-            ...(await this.loadUserCommands(join(folderPath, folderName)))
+            ...(await this.loadUserCommands(
+              join(folderPath, folderName),
+              issues,
+              guildId
+            ))
           );
           break;
       }
     }
 
-    this.logger?.debug(commandData);
-
-    if (register && token) {
-      const rest = new REST({ version: '10' }).setToken(token);
-      await rest.put(
-        Routes.applicationGuildCommands(this.application.id, guildId),
-        {
-          body: commandData.map((c) => c.toJSON()),
-        }
-      );
-    }
+    // Report every problem at once instead of one file at a time
+    assertNoDefinitionIssues(issues);
 
-    this.logger?.info(`Finished registering guild commands to ${guildId}`);
+    return commandData;
   }
 
-  useCommandMiddleware(fn: Middleware<CommandRunFunction<[]>>) {
+  /**
+   * Adds middleware that runs for every command. What it adds to the context
+   * isn't known to the commands, declare it on `CommandContext`.
+   */
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  useCommandMiddleware<C extends object = {}>(
+    fn: Middleware<CommandRunFunction<[]>, C>
+  ) {
     this.chatCommandMiddleware.push(fn);
   }
 
-  useAutocompleteMiddleware(fn: Middleware<AutocompleteFunction<[]>>) {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  useAutocompleteMiddleware<C extends object = {}>(
+    fn: Middleware<AutocompleteFunction<[]>, C>
+  ) {
     this.autocompleteMiddleware.push(fn);
   }
 
-  useContextMenuMiddleware(
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  useContextMenuMiddleware<C extends object = {}>(
     fn: Middleware<
-      ContextMenuHandlerType<'MESSAGE'> | ContextMenuHandlerType<'USER'>
+      ContextMenuHandlerType<'MESSAGE'> | ContextMenuHandlerType<'USER'>,
+      C
     >
   ) {
     this.contextMenuMiddleware.push(fn);
   }
 
-  private async loadUserCommands(path: string) {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  usePageMiddleware<C extends object = {}>(
+    fn: Middleware<PageComponentHandlerFunction, C>
+  ) {
+    this.pageMiddleware.push(fn);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  useModalMiddleware<C extends object = {}>(
+    fn: Middleware<ModalHandlerFunction, C>
+  ) {
+    this.modalMiddleware.push(fn);
+  }
+
+  private async loadUserCommands(
+    path: string,
+    issues: CommandDefinitionIssue[],
+    guildId?: string
+  ) {
     const topLevel = await readdir(path);
 
     const commandData: ContextMenuCommandBuilder[] = [];
@@ -399,18 +981,14 @@ export class SlashasaurusClient extends Client<true> {
               )} to be a UserCommand`
             );
           }
-          this.userContextMenuMap.set(command.commandInfo.name, command);
-          const info = command.commandInfo;
-          commandData.push(
-            new ContextMenuCommandBuilder()
-              .setName(info.name)
-              .setType(ApplicationCommandType.User)
-              .setNameLocalizations(info.nameLocalizations ?? null)
-              .setDefaultMemberPermissions(
-                info.defaultMemberPermissions ?? null
-              )
-              .setDMPermission(info.dmPermission ?? null)
+          this.addUserCommand(command, guildId);
+          const builder = collectDefinitionIssues(filePath, issues, () =>
+            buildContextMenuCommand(
+              command.commandInfo,
+              ApplicationCommandType.User
+            )
           );
+          if (builder) commandData.push(builder);
           this.logger?.debug(`Loaded user command ${command.commandInfo.name}`);
         }
       } else {
@@ -425,7 +1003,11 @@ export class SlashasaurusClient extends Client<true> {
     return commandData;
   }
 
-  private async loadMessageCommands(path: string) {
+  private async loadMessageCommands(
+    path: string,
+    issues: CommandDefinitionIssue[],
+    guildId?: string
+  ) {
     const topLevel = await readdir(path);
 
     const commandData: ContextMenuCommandBuilder[] = [];
@@ -461,18 +1043,14 @@ export class SlashasaurusClient extends Client<true> {
               )} to be a MessageCommand`
             );
           }
-          this.messageContextMenuMap.set(command.commandInfo.name, command);
-          const info = command.commandInfo;
-          commandData.push(
-            new ContextMenuCommandBuilder()
-              .setName(info.name)
-              .setType(ApplicationCommandType.Message)
-              .setNameLocalizations(info.nameLocalizations ?? null)
-              .setDefaultMemberPermissions(
-                info.defaultMemberPermissions ?? null
-              )
-              .setDMPermission(info.dmPermission ?? null)
+          this.addMessageCommand(command, guildId);
+          const builder = collectDefinitionIssues(filePath, issues, () =>
+            buildContextMenuCommand(
+              command.commandInfo,
+              ApplicationCommandType.Message
+            )
           );
+          if (builder) commandData.push(builder);
           this.logger?.debug(
             `Loaded message command ${command.commandInfo.name}`
           );
@@ -489,7 +1067,11 @@ export class SlashasaurusClient extends Client<true> {
     return commandData;
   }
 
-  private async loadTopLevelCommands(path: string) {
+  private async loadTopLevelCommands(
+    path: string,
+    issues: CommandDefinitionIssue[],
+    guildId?: string
+  ) {
     const topLevel = await readdir(path);
 
     const commandData: SlashCommandBuilder[] = [];
@@ -531,22 +1113,25 @@ export class SlashasaurusClient extends Client<true> {
           this.logger?.debug(
             `Adding command from ${folderOrFile} to command map`
           );
-          if (this.commandMap.has(command.commandInfo.name))
-            throw new Error(
-              `Duplicate command name ${command.commandInfo.name}`
-            );
-          this.commandMap.set(command.commandInfo.name, command);
-          commandData.push(
-            // @ts-expect-error I will fix this later
+          this.addChatCommand(
+            command,
+            routeKey(command.commandInfo.name, guildId)
+          );
+          const builder = collectDefinitionIssues(filePath, issues, () =>
             populateBuilder(command.commandInfo, new SlashCommandBuilder())
           );
+          if (builder) commandData.push(builder);
           this.logger?.debug(`Loaded chat command ${command.commandInfo.name}`);
         }
       } else {
         // This has subcommands
-        commandData.push(
-          await this.loadSubFolderLevelOne(filePath, folderOrFile)
+        const builder = await this.loadSubFolderLevelOne(
+          filePath,
+          folderOrFile,
+          issues,
+          guildId
         );
+        if (builder) commandData.push(builder);
       }
     }
 
@@ -557,8 +1142,11 @@ export class SlashasaurusClient extends Client<true> {
 
   private async loadSubFolderLevelOne(
     path: string,
-    name: string
-  ): Promise<SlashCommandBuilder> {
+    name: string,
+    issues: CommandDefinitionIssue[],
+    guildId?: string
+  ): Promise<SlashCommandBuilder | undefined> {
+    const key = routeKey(name, guildId);
     const topLevel = await readdir(path);
 
     const commandData: (
@@ -573,6 +1161,9 @@ export class SlashasaurusClient extends Client<true> {
     let metaData: CommandGroupMetadata = {
       description: 'Default description',
     };
+    let metaDataPath = path;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let middleware: Middleware<CommandRunFunction<[]>, any>[] = [];
 
     for (const folderOrFile of topLevel) {
       const filePath = join(path, folderOrFile);
@@ -585,7 +1176,11 @@ export class SlashasaurusClient extends Client<true> {
           const data = await import(join(path, folderOrFile));
           if (isCommandGroupMetadata(data)) {
             metaData = data;
+            metaDataPath = filePath;
           }
+        } else if (folderOrFile.match(/_middleware\.(js|ts)x?$/)) {
+          // This is the middleware file which should export middleware for every command in this folder
+          middleware = await loadMiddlewareFile(filePath);
         } else if (folderOrFile.match(JSFileRegex)) {
           this.logger?.debug(
             `Checking if file ${folderOrFile} contains a command`
@@ -615,60 +1210,48 @@ export class SlashasaurusClient extends Client<true> {
           this.logger?.debug(
             `Adding command from ${folderOrFile} to command map`
           );
-          const mapName = name + '.' + command.commandInfo.name;
-          if (this.commandMap.has(mapName))
-            throw new Error(`Duplicate command name ${mapName}`);
-          this.commandMap.set(mapName, command);
-          commandData.push(
-            // @ts-expect-error I will fix this later
+          this.addChatCommand(command, key + '.' + command.commandInfo.name);
+          const builder = collectDefinitionIssues(filePath, issues, () =>
             populateBuilder(
               command.commandInfo,
-              // @ts-expect-error I will fix this later
               new SlashCommandSubcommandBuilder()
             )
           );
+          if (builder) commandData.push(builder);
           this.logger?.debug(
             `Loaded chat command ${name}.${command.commandInfo.name}`
           );
         }
       } else {
         // This is either a subcommand group or a subcommand
-        commandData.push(
-          await this.loadSubFolderLevelTwo(
-            join(path, folderOrFile),
-            folderOrFile,
-            name
-          )
+        const builder = await this.loadSubFolderLevelTwo(
+          join(path, folderOrFile),
+          folderOrFile,
+          name,
+          issues,
+          guildId
         );
+        if (builder) commandData.push(builder);
       }
     }
 
     this.logger?.debug(`Finished loading sub-commands from chat/${name}`);
+    this.groupPreconditions.set(key, metaData.preconditions ?? []);
+    this.groupMiddleware.set(key, middleware);
 
-    const builder = new SlashCommandBuilder()
-      .setName(name)
-      .setNameLocalizations(metaData.nameLocalizations ?? null)
-      .setDescription(metaData.description)
-      .setDescriptionLocalizations(metaData.descriptionLocalizations ?? null)
-      .setDefaultMemberPermissions(metaData.defaultMemberPermissions ?? null)
-      .setDMPermission(metaData.dmPermission ?? null);
-
-    commandData.forEach((subcommand) => {
-      if (subcommand instanceof SlashCommandSubcommandBuilder) {
-        builder.addSubcommand(subcommand);
-      } else {
-        builder.addSubcommandGroup(subcommand);
-      }
-    });
-
-    return builder;
+    return collectDefinitionIssues(metaDataPath, issues, () =>
+      buildCommandGroup(name, metaData, commandData)
+    );
   }
 
   private async loadSubFolderLevelTwo(
     path: string,
     name: string,
-    parentName: string
-  ): Promise<SlashCommandSubcommandGroupBuilder> {
+    parentName: string,
+    issues: CommandDefinitionIssue[],
+    guildId?: string
+  ): Promise<SlashCommandSubcommandGroupBuilder | undefined> {
+    const key = routeKey(parentName + '.' + name, guildId);
     const topLevel = await readdir(path);
 
     const commandData: SlashCommandSubcommandBuilder[] = [];
@@ -682,6 +1265,9 @@ export class SlashasaurusClient extends Client<true> {
     let metaData: CommandGroupMetadata = {
       description: 'Default description',
     };
+    let metaDataPath = path;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let middleware: Middleware<CommandRunFunction<[]>, any>[] = [];
 
     for (const folderOrFile of topLevel) {
       const filePath = join(path, folderOrFile);
@@ -692,7 +1278,11 @@ export class SlashasaurusClient extends Client<true> {
           const data = await import(join(path, folderOrFile));
           if (isCommandGroupMetadata(data)) {
             metaData = data;
+            metaDataPath = filePath;
           }
+        } else if (folderOrFile.match(/_middleware\.(js|ts)x?$/)) {
+          // This is the middleware file which should export middleware for every command in this folder
+          middleware = await loadMiddlewareFile(filePath);
         } else if (folderOrFile.match(JSFileRegex)) {
           this.logger?.debug(
             `Checking if file ${folderOrFile} contains a command`
@@ -721,19 +1311,14 @@ export class SlashasaurusClient extends Client<true> {
           this.logger?.debug(
             `Adding command from ${folderOrFile} to command map`
           );
-          const mapName =
-            parentName + '.' + name + '.' + command.commandInfo.name;
-          if (this.commandMap.has(mapName))
-            throw new Error(`Duplicate command name ${mapName}`);
-          this.commandMap.set(mapName, command);
-          commandData.push(
-            // @ts-expect-error I will fix this later
+          this.addChatCommand(command, key + '.' + command.commandInfo.name);
+          const builder = collectDefinitionIssues(filePath, issues, () =>
             populateBuilder(
               command.commandInfo,
-              // @ts-expect-error I will fix this later
               new SlashCommandSubcommandBuilder()
             )
           );
+          if (builder) commandData.push(builder);
           this.logger?.debug(
             `Loaded chat command ${parentName}.${name}.${command.commandInfo.name}`
           );
@@ -744,18 +1329,12 @@ export class SlashasaurusClient extends Client<true> {
     this.logger?.debug(
       `Finished loading sub-commands from chat/${parentName}/${name}`
     );
+    this.groupPreconditions.set(key, metaData.preconditions ?? []);
+    this.groupMiddleware.set(key, middleware);
 
-    const builder = new SlashCommandSubcommandGroupBuilder()
-      .setName(name)
-      .setNameLocalizations(metaData.nameLocalizations ?? null)
-      .setDescription(metaData.description)
-      .setDescriptionLocalizations(metaData.descriptionLocalizations ?? null);
-
-    commandData.forEach((subcommand) => {
-      builder.addSubcommand(subcommand);
-    });
-
-    return builder;
+    return collectDefinitionIssues(metaDataPath, issues, () =>
+      buildSubcommandGroup(name, metaData, commandData)
+    );
   }
 
   async registerPagesFrom(path: string) {
@@ -765,47 +1344,7 @@ export class SlashasaurusClient extends Client<true> {
       const filePath = join(path, folderOrFile);
       if ((await stat(filePath)).isFile()) {
         if (folderOrFile.match(JSFileRegex)) {
-          // This is a js file
-          const data = await import(filePath);
-          if (!data.default) {
-            throw new Error(
-              `Expected a default export in file ${join(
-                path,
-                folderOrFile
-              )} but didn't find one`
-            );
-          }
-          const page = data.default;
-          if (!isPage(page)) {
-            throw new Error(
-              `Expected the default export in file ${join(
-                path,
-                folderOrFile
-              )} to be a Page`
-            );
-          }
-          if (page.pageId === DEFAULT_PAGE_ID) {
-            throw new Error(
-              `The page exported in ${join(
-                path,
-                folderOrFile
-              )} does not have a static pageId set.`
-            );
-          }
-          page._client = this;
-          const deserialize = page.deserializeState ?? data.deserializeState;
-          if (!deserialize) {
-            throw new Error(
-              `Expected the page to have a static deserializeState function or an export named "deserializeState" in file ${join(
-                path,
-                folderOrFile
-              )} but didn't find one`
-            );
-          }
-          this.pageMap.set(page.pageId, {
-            page,
-            deserialize: deserialize,
-          });
+          await this.loadPageFile(filePath);
         }
       } else {
         throw new Error(
@@ -813,6 +1352,48 @@ export class SlashasaurusClient extends Client<true> {
         );
       }
     }
+
+    if (this.hotReload) {
+      this.watchers.push(
+        watchFolder(path, (filePaths) =>
+          this.reloadFiles(path, filePaths, (filePath) =>
+            this.loadPageFile(filePath)
+          )
+        )
+      );
+    }
+  }
+
+  private async loadPageFile(filePath: string) {
+    // This is a js file
+    const data = await import(filePath);
+    if (!data.default) {
+      throw new Error(
+        `Expected a default export in file ${filePath} but didn't find one`
+      );
+    }
+    const page = data.default;
+    if (!isPage(page)) {
+      throw new Error(
+        `Expected the default export in file ${filePath} to be a Page`
+      );
+    }
+    if (page.pageId === DEFAULT_PAGE_ID) {
+      throw new Error(
+        `The page exported in ${filePath} does not have a static pageId set.`
+      );
+    }
+    page._client = this;
+    const deserialize = page.deserializeState ?? data.deserializeState;
+    if (!deserialize) {
+      throw new Error(
+        `Expected the page to have a static deserializeState function or an export named "deserializeState" in file ${filePath} but didn't find one`
+      );
+    }
+    this.pageMap.set(page.pageId, {
+      page,
+      deserialize: deserialize,
+    });
   }
 
   async registerModalsFrom(path: string) {
@@ -822,26 +1403,7 @@ export class SlashasaurusClient extends Client<true> {
       const filePath = join(path, folderOrFile);
       if ((await stat(filePath)).isFile()) {
         if (folderOrFile.match(JSFileRegex)) {
-          // This is a js file
-          const data = await import(filePath);
-          if (!data.default) {
-            throw new Error(
-              `Expected a default export in file ${join(
-                path,
-                folderOrFile
-              )} but didn't find one`
-            );
-          }
-          const modal = data.default;
-          if (!(modal instanceof TemplateModal)) {
-            throw new Error(
-              `Expected the default export in file ${join(
-                path,
-                folderOrFile
-              )} to be a TemplateModal`
-            );
-          }
-          this.modalMap.set(modal.customId, modal);
+          await this.loadModalFile(filePath);
         }
       } else {
         throw new Error(
@@ -849,6 +1411,215 @@ export class SlashasaurusClient extends Client<true> {
         );
       }
     }
+
+    if (this.hotReload) {
+      this.watchers.push(
+        watchFolder(path, (filePaths) =>
+          this.reloadFiles(path, filePaths, (filePath) =>
+            this.loadModalFile(filePath)
+          )
+        )
+      );
+    }
+  }
+
+  private async loadModalFile(filePath: string) {
+    // This is a js file
+    const data = await import(filePath);
+    if (!data.default) {
+      throw new Error(
+        `Expected a default export in file ${filePath} but didn't find one`
+      );
+    }
+    const modal = data.default;
+    if (!(modal instanceof TemplateModal)) {
+      throw new Error(
+        `Expected the default export in file ${filePath} to be a TemplateModal`
+      );
+    }
+    this.modalMap.set(modal.customId, modal);
+  }
+
+  /**
+   * Re-imports every file in the folder with `load` once a file in it changed,
+   * this is used for hot reloading pages and modals. Every file is reloaded so
+   * that files importing the changed one get the new version too. Errors are
+   * logged so that a typo doesn't crash the bot.
+   */
+  private async reloadFiles(
+    folderPath: string,
+    changedPaths: string[],
+    load: (filePath: string) => Promise<void>
+  ) {
+    if (!changedPaths.some((filePath) => filePath.match(JSFileRegex))) return;
+    clearModuleCache(folderPath);
+    // Deleted files are left registered until the next restart
+    const fileNames = await readdir(folderPath).catch(() => []);
+    for (const fileName of fileNames) {
+      if (!fileName.match(JSFileRegex)) continue;
+      const filePath = join(folderPath, fileName);
+      try {
+        await load(filePath);
+        this.logger?.info(`Reloaded ${filePath}`);
+      } catch (e) {
+        this.logger?.error(e as object, `Failed to reload ${filePath}`);
+      }
+    }
+  }
+
+  /**
+   * Loads every `guilds/<guildId>` folder inside of the given folder
+   *
+   * @returns The ids of the guilds that had a folder
+   */
+  private async loadGuildCommandRoots(folderPath: string) {
+    const guildsPath = join(folderPath, 'guilds');
+    if (!(await readdir(folderPath)).includes('guilds')) return [];
+
+    const guildIds: string[] = [];
+    for (const guildId of await readdir(guildsPath)) {
+      const guildPath = join(guildsPath, guildId);
+      if (!(await stat(guildPath)).isDirectory()) continue;
+      this.logger?.info(`Registering guild commands to ${guildId}`);
+      await this.loadCommandRoot(guildPath, guildId);
+      guildIds.push(guildId);
+    }
+    return guildIds;
+  }
+
+  /**
+   * Loads a folder of commands and adds them to the commands for the given
+   * scope. If hot reloading is enabled, the folder is also watched.
+   */
+  private async loadCommandRoot(folderPath: string, guildId?: string) {
+    const keysBefore = this.getCommandKeys();
+    const commandData = await this.loadCommandsFrom(folderPath, guildId);
+
+    this.logger?.debug(commandData);
+    this.addCommandData(commandData, guildId);
+
+    if (!this.hotReload) return;
+    const root: CommandRoot = {
+      folderPath,
+      guildId,
+      commandData,
+      keys: subtractCommandKeys(this.getCommandKeys(), keysBefore),
+    };
+    // Only the command folders belong to this root, `guilds/` has its own watchers
+    const commandFolders = COMMAND_FOLDERS.map((folder) =>
+      join(resolve(folderPath), folder, sep)
+    );
+    this.watchers.push(
+      watchFolder(folderPath, (filePaths) => {
+        if (
+          !filePaths.some((filePath) =>
+            commandFolders.some((folder) => filePath.startsWith(folder))
+          )
+        )
+          return;
+        this.reloadCommandRoot(root).catch((e) =>
+          this.logger?.error(e, `Failed to reload commands from ${folderPath}`)
+        );
+      })
+    );
+  }
+
+  /**
+   * Re-imports an entire folder of commands and swaps them into the command
+   * maps. If the shape of the commands changed and the folder was registered
+   * to the dev guild, the commands are re-synced to it.
+   */
+  private async reloadCommandRoot(root: CommandRoot) {
+    this.logger?.info(`Reloading commands from ${root.folderPath}`);
+    COMMAND_FOLDERS.forEach((folder) =>
+      clearModuleCache(join(root.folderPath, folder))
+    );
+    const removed = this.removeCommandEntries(root.keys);
+    const keysBefore = this.getCommandKeys();
+
+    let commandData: (SlashCommandBuilder | ContextMenuCommandBuilder)[];
+    try {
+      commandData = await this.loadCommandsFrom(root.folderPath, root.guildId);
+    } catch (e) {
+      // Put the old commands back so they keep working until the files are fixed
+      this.restoreCommandEntries(removed);
+      this.logger?.error(
+        e as object,
+        `Failed to reload commands from ${root.folderPath}`
+      );
+      return;
+    }
+
+    const diff = diffCommands(
+      root.commandData.map((c) => c.toJSON()),
+      commandData.map((c) => c.toJSON())
+    );
+    const scope = root.guildId ?? GLOBAL_SCOPE;
+    this.commandData.set(scope, [
+      ...(this.commandData.get(scope) ?? []).filter(
+        (builder) => !root.commandData.includes(builder)
+      ),
+      ...commandData,
+    ]);
+    root.commandData = commandData;
+    root.keys = subtractCommandKeys(this.getCommandKeys(), keysBefore);
+    this.logger?.info(`Reloaded commands from ${root.folderPath}`);
+
+    if (!hasChanges(diff)) return;
+    const { devGuildId, token } = this.hotReload ?? {};
+    if (devGuildId && token && root.guildId === devGuildId) {
+      await this.deployCommands(token, { guildId: devGuildId });
+    } else {
+      this.logger?.info(
+        `The shape of some commands changed, they need to be deployed before Discord will show the changes:\n${formatCommandDiff(
+          diff
+        )}`
+      );
+    }
+  }
+
+  private getCommandKeys(): CommandKeys {
+    return {
+      chat: [...this.commandMap.keys()],
+      user: [...this.userContextMenuMap.keys()],
+      message: [...this.messageContextMenuMap.keys()],
+    };
+  }
+
+  private removeCommandEntries(keys: CommandKeys): CommandEntries {
+    const removed: CommandEntries = { chat: [], user: [], message: [] };
+    keys.chat.forEach((key) => {
+      const command = this.commandMap.get(key);
+      if (command) removed.chat.push([key, command]);
+      this.commandMap.delete(key);
+    });
+    keys.user.forEach((key) => {
+      const command = this.userContextMenuMap.get(key);
+      if (command) removed.user.push([key, command]);
+      this.userContextMenuMap.delete(key);
+    });
+    keys.message.forEach((key) => {
+      const command = this.messageContextMenuMap.get(key);
+      if (command) removed.message.push([key, command]);
+      this.messageContextMenuMap.delete(key);
+    });
+    return removed;
+  }
+
+  private restoreCommandEntries(entries: CommandEntries) {
+    entries.chat.forEach(([key, command]) => this.commandMap.set(key, command));
+    entries.user.forEach(([key, command]) =>
+      this.userContextMenuMap.set(key, command)
+    );
+    entries.message.forEach(([key, command]) =>
+      this.messageContextMenuMap.set(key, command)
+    );
+  }
+
+  destroy() {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+    return super.destroy();
   }
 
   private handleInteractionEvent(interaction: Interaction) {
@@ -856,62 +1627,211 @@ export class SlashasaurusClient extends Client<true> {
     switch (interaction.type) {
       case InteractionType.ApplicationCommand:
         if (interaction.commandType === ApplicationCommandType.ChatInput) {
-          this.handleCommand(interaction);
+          this.runHandler('command', interaction, () =>
+            this.handleCommand(interaction)
+          );
           this.emit('commandRun', interaction);
         } else if (
           interaction.commandType === ApplicationCommandType.Message ||
           interaction.commandType === ApplicationCommandType.User
         ) {
-          this.handleContextMenu(interaction);
+          this.runHandler('contextMenu', interaction, () =>
+            this.handleContextMenu(interaction)
+          );
           this.emit('contextMenuRun', interaction);
         }
         break;
       case InteractionType.ApplicationCommandAutocomplete:
-        this.handleAutocomplete(interaction);
+        this.runHandler('autocomplete', interaction, () =>
+          this.handleAutocomplete(interaction)
+        );
         this.emit('autocomplete', interaction);
         break;
       case InteractionType.MessageComponent:
         if (interaction.componentType === ComponentType.Button) {
           if (interaction.customId.startsWith('~')) {
-            this.handlePageButton(interaction);
+            this.runHandler('pageComponent', interaction, () =>
+              this.handlePageButton(interaction)
+            );
           }
           this.emit('buttonPressed', interaction);
         } else if (interaction.componentType === ComponentType.StringSelect) {
           if (interaction.customId.startsWith('~')) {
-            this.handlePageSelect(interaction);
+            this.runHandler('pageComponent', interaction, () =>
+              this.handlePageSelect(interaction)
+            );
           }
           this.emit('selectChanged', interaction);
         } else if (interaction.componentType === ComponentType.UserSelect) {
           if (interaction.customId.startsWith('~')) {
-            this.handlePageSelect(interaction);
+            this.runHandler('pageComponent', interaction, () =>
+              this.handlePageSelect(interaction)
+            );
           }
           this.emit('userSelectChanged', interaction);
         } else if (interaction.componentType === ComponentType.ChannelSelect) {
           if (interaction.customId.startsWith('~')) {
-            this.handlePageSelect(interaction);
+            this.runHandler('pageComponent', interaction, () =>
+              this.handlePageSelect(interaction)
+            );
           }
           this.emit('channelSelectChanged', interaction);
         } else if (interaction.componentType === ComponentType.RoleSelect) {
           if (interaction.customId.startsWith('~')) {
-            this.handlePageSelect(interaction);
+            this.runHandler('pageComponent', interaction, () =>
+              this.handlePageSelect(interaction)
+            );
           }
           this.emit('roleSelectChanged', interaction);
         } else if (
           interaction.componentType === ComponentType.MentionableSelect
         ) {
           if (interaction.customId.startsWith('~')) {
-            this.handlePageSelect(interaction);
+            this.runHandler('pageComponent', interaction, () =>
+              this.handlePageSelect(interaction)
+            );
           }
           this.emit('mentionableSelectChanged', interaction);
         }
         break;
       case InteractionType.ModalSubmit:
-        this.handleModalSubmit(interaction);
+        this.runHandler('modal', interaction, () =>
+          this.handleModalSubmit(interaction)
+        );
         this.emit('modalSubmit', interaction);
         break;
     }
   }
 
+  private handleMessageEvent(message: Message) {
+    // Errors from a command are handled by runHandler, this catches the ones
+    // from before a command is found, like a prefix function that throws
+    this.runPrefixCommand(message).catch((e) =>
+      this.logger?.error(e, 'Failed to run a command from a message')
+    );
+  }
+
+  private async runPrefixCommand(message: Message) {
+    if (message.author.bot || !this.prefix) return;
+    const prefixes =
+      typeof this.prefix === 'function'
+        ? await this.prefix(message)
+        : this.prefix;
+    const prefix = [prefixes ?? []]
+      .flat()
+      .find((prefix) => message.content.startsWith(prefix));
+    if (prefix === undefined) return;
+    const args = parsePrefixArguments(message.content.slice(prefix.length));
+    // Find the longest command path that matches, e.g. `name group sub`
+    for (let depth = 3; depth > 0; depth--) {
+      const path = args.slice(0, depth);
+      if (path.length < depth || path.some((arg) => arg.name !== undefined))
+        continue;
+      const commandName = path.map((arg) => arg.value.toLowerCase()).join('.');
+      // A command registered to this guild is used over a global one
+      const guildId = [message.guildId, null].find((guildId) =>
+        this.commandMap.has(routeKey(commandName, guildId))
+      );
+      if (guildId === undefined) continue;
+      if (
+        !(await this.canRunFromMessage(
+          message,
+          path[0].value.toLowerCase(),
+          guildId
+        ))
+      )
+        return;
+      const interaction = new PrefixCommandInteraction(
+        this,
+        message,
+        path[0].value.toLowerCase(),
+        guildId,
+        new PrefixCommandOptionResolver(
+          message,
+          args.slice(depth),
+          depth === 3 ? path[1].value.toLowerCase() : null,
+          depth > 1 ? path[depth - 1].value.toLowerCase() : null
+        )
+      );
+      // The interaction is only partially implemented, see PrefixCommandInteraction
+      const asInteraction =
+        interaction as unknown as ChatInputCommandInteraction;
+      this.runHandler('command', asInteraction, () =>
+        this.handleCommand(asInteraction)
+      );
+      return;
+    }
+  }
+
+  /**
+   * Checks what Discord checks before showing a command: that it's registered
+   * where the message was sent, that it can be used in DMs if this is a DM,
+   * and that the member has its default permissions. Permission overrides set
+   * in the server's integration settings aren't known, so they're ignored.
+   */
+  private async canRunFromMessage(
+    message: Message,
+    name: string,
+    guildId: string | null
+  ) {
+    const data = (this.commandData.get(guildId ?? GLOBAL_SCOPE) ?? []).find(
+      (data): data is SlashCommandBuilder =>
+        data instanceof SlashCommandBuilder && data.name === name
+    );
+    if (!data) return false;
+    if (!message.inGuild()) {
+      return data.contexts
+        ? data.contexts.includes(InteractionContextType.BotDM)
+        : data.dm_permission !== false;
+    }
+    if (data.contexts && !data.contexts.includes(InteractionContextType.Guild))
+      return false;
+    if (
+      data.default_member_permissions === null ||
+      data.default_member_permissions === undefined
+    )
+      return true;
+    const member =
+      message.member ?? (await message.guild.members.fetch(message.author.id));
+    const permissions = member.permissionsIn(message.channel);
+    const required = BigInt(data.default_member_permissions);
+    // No permissions means only admins can use the command
+    return required === BigInt(0)
+      ? permissions.has(PermissionFlagsBits.Administrator)
+      : permissions.has(required);
+  }
+
+  /**
+   * Runs a handler and passes anything it throws to `onError`
+   */
+  private async runHandler(
+    kind: HandlerKind,
+    interaction: Interaction,
+    handler: () => Promise<void>
+  ) {
+    try {
+      await handler();
+    } catch (e) {
+      // A throwing listener must not keep onError from running
+      try {
+        this.emit('commandError', e, interaction, kind);
+      } catch (listenerError) {
+        this.logger?.error(
+          listenerError as object,
+          'A commandError listener threw an error'
+        );
+      }
+      try {
+        await this.onError(e, interaction, kind, this);
+      } catch (handlerError) {
+        this.logger?.error(
+          handlerError as object,
+          'The onError handler threw an error'
+        );
+      }
+    }
+  }
+
   private async handleCommand(interaction: ChatInputCommandInteraction) {
     let commandName = interaction.commandName;
     // @ts-expect-error This is TS-private, but I know what I'm doing
@@ -924,28 +1844,149 @@ export class SlashasaurusClient extends Client<true> {
       // @ts-expect-error This is TS-private, but I know what I'm doing
       commandName += '.' + interaction.options._subcommand;
     }
-    const command = this.commandMap.get(commandName);
+    const key = routeKey(commandName, interaction.commandGuildId);
+    const command = this.commandMap.get(key);
     if (!command) {
       this.logger?.error(`Unregistered command ${commandName} being run`);
       throw new Error(`Unregistered command ${commandName} was run`);
     } else {
       this.logger?.info(`Running command ${commandName}`);
-      const optionsObj = await command.validateAndTransformOptions(interaction);
-      // If there is errors, we want to send them back to the user
-      if (Array.isArray(optionsObj)) {
-        await interaction.reply({
-          content: optionsObj.join('\n'),
-          ephemeral: true,
-        });
-        return;
-      }
-      await this.chatCommandMiddleware.execute(
-        command.run,
-        interaction,
-        this,
-        optionsObj
+      await this.measure('command', { command: commandName }, async () => {
+        const stopAutoDefer = enableAutoDefer(
+          interaction,
+          command.commandInfo.autoDefer ?? this.autoDefer,
+          'reply'
+        );
+        try {
+          if (
+            !(await this.checkPreconditions(
+              [
+                ...this.getGroupPreconditions(key),
+                ...(command.commandInfo.preconditions ?? []),
+              ],
+              interaction
+            ))
+          )
+            return;
+          // Before the options are transformed, so downloads and other heavy
+          // transformers don't run for users on cooldown
+          if (
+            !(await this.checkCooldown(
+              `chat:${key}`,
+              command.commandInfo.cooldown,
+              interaction
+            ))
+          )
+            return;
+          const optionsObj = await command.validateAndTransformOptions(
+            interaction
+          );
+          // If there is errors, we want to send them back to the user
+          if (Array.isArray(optionsObj)) {
+            const format =
+              command.commandInfo.formatValidationErrors ??
+              this.formatValidationErrors;
+            await interaction.reply(await format(optionsObj, interaction));
+            return;
+          }
+          await this.getCommandPipeline(key, command).execute(
+            command.run,
+            interaction,
+            this,
+            optionsObj
+          );
+        } finally {
+          stopAutoDefer();
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the middleware pipeline for a command. The middleware is nested in
+   * this order, from outermost to innermost:
+   *
+   * 1. Middleware added with {@link useCommandMiddleware}
+   * 2. The `_middleware` file of the command's top level folder
+   * 3. The `_middleware` file of the command's subcommand group folder
+   * 4. The `middleware` of the command itself
+   */
+  private getCommandPipeline(
+    commandName: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    command: SlashCommand<any>
+  ) {
+    const pipeline = new Pipeline<CommandRunFunction<[]>>();
+    const parts = commandName.split('.');
+    [
+      ...this.chatCommandMiddleware.stack,
+      ...parts
+        .slice(0, -1)
+        .flatMap(
+          (_, i) =>
+            this.groupMiddleware.get(parts.slice(0, i + 1).join('.')) ?? []
+        ),
+      ...(command.commandInfo.middleware ?? []),
+    ].forEach((fn) => pipeline.push(fn));
+    return pipeline;
+  }
+
+  /**
+   * Gets the preconditions of every group above a command, outermost first
+   */
+  private getGroupPreconditions(commandName: string) {
+    const parts = commandName.split('.');
+    const preconditions: Precondition[] = [];
+    for (let i = 1; i < parts.length; i++) {
+      preconditions.push(
+        ...(this.groupPreconditions.get(parts.slice(0, i).join('.')) ?? [])
       );
     }
+    return preconditions;
+  }
+
+  /**
+   * Runs the preconditions for a command, and replies to the user if one fails
+   *
+   * @returns Whether or not the command can run
+   */
+  private async checkPreconditions(
+    preconditions: Precondition[],
+    interaction: CommandInteraction
+  ) {
+    const failure = await runPreconditions(preconditions, interaction, this);
+    if (!failure) return true;
+    this.logger?.debug(
+      `Precondition failed for command ${interaction.commandName}: ${failure.reason}`
+    );
+    await interaction.reply(
+      await this.formatPreconditionFailure(failure, interaction)
+    );
+    return false;
+  }
+
+  /**
+   * Starts the cooldown for a command, or replies to the user if it's
+   * already running
+   *
+   * @returns Whether or not the command can run
+   */
+  private async checkCooldown(
+    commandKey: string,
+    cooldown: CooldownOptions | undefined,
+    interaction: CommandInteraction
+  ) {
+    if (!cooldown) return true;
+    const remaining = await this.cooldownStore.acquire(
+      getCooldownKey(commandKey, cooldown.scope ?? 'user', interaction),
+      cooldown.duration
+    );
+    if (remaining <= 0) return true;
+    this.logger?.debug(
+      `Command ${commandKey} is on cooldown for ${remaining}ms`
+    );
+    await interaction.reply(await this.formatCooldown(remaining, interaction));
+    return false;
   }
 
   private async handleAutocomplete(interaction: AutocompleteInteraction) {
@@ -960,50 +2001,69 @@ export class SlashasaurusClient extends Client<true> {
       // @ts-expect-error This is TS-private, but I know what I'm doing
       commandName += '.' + interaction.options._subcommand;
     }
-    const command = this.commandMap.get(commandName);
+    const command = this.commandMap.get(
+      routeKey(commandName, interaction.commandGuildId)
+    );
     if (!command) {
-      interaction.respond([]);
+      await interaction.respond([]);
     } else {
-      const optionsObj = await command.validateAndTransformOptions(
-        interaction,
-        true,
-        this.skipAutocompleteValidationAndTransformation
-      );
-      const focused = interaction.options.getFocused(true);
-      const autocompleteFn = command.autocompleteMap.get(focused.name);
-      if (autocompleteFn) {
-        await this.autocompleteMiddleware.execute(
-          (interaction, _name, value, client) => {
-            autocompleteFn(interaction, value, client);
-          },
+      await this.measure('autocomplete', { command: commandName }, async () => {
+        const optionsObj = await command.validateAndTransformOptions(
           interaction,
-          // @ts-expect-error This will complain because the autocomplete is typed here with []
-          focused.name,
-          focused.value,
-          this,
-          optionsObj
-        );
-      } else {
-        // @ts-expect-error This will complain because the autocomplete is typed here with []
-        await this.autocompleteMiddleware.execute(
-          command.autocomplete,
-          interaction,
-          // @ts-expect-error This will complain because the autocomplete is typed here with []
-          focused.name,
-          focused.value,
-          this,
-          optionsObj
+          true,
+          this.skipAutocompleteValidationAndTransformation
         );
-      }
+        const focused = interaction.options.getFocused(true);
+        const autocompleteFn = command.autocompleteMap.get(focused.name);
+        if (autocompleteFn) {
+          await this.autocompleteMiddleware.execute(
+            async (interaction, _name, value, client) => {
+              await respondWithChoices(
+                interaction,
+                await autocompleteFn(interaction, value, client)
+              );
+            },
+            interaction,
+            // @ts-expect-error This will complain because the autocomplete is typed here with []
+            focused.name,
+            focused.value,
+            this,
+            optionsObj
+          );
+        } else {
+          await this.autocompleteMiddleware.execute(
+            async (interaction, name, value, client, options, ctx) => {
+              await respondWithChoices(
+                interaction,
+                await (command as SlashCommand<[]>).autocomplete(
+                  interaction,
+                  name,
+                  value,
+                  client,
+                  options,
+                  ctx
+                )
+              );
+            },
+            interaction,
+            // @ts-expect-error This will complain because the autocomplete is typed here with []
+            focused.name,
+            focused.value,
+            this,
+            optionsObj
+          );
+        }
+      });
     }
   }
 
   private async handleContextMenu(interaction: ContextMenuCommandInteraction) {
     const commandName = interaction.commandName;
+    const key = routeKey(commandName, interaction.commandGuildId);
     const command =
       interaction.commandType === ApplicationCommandType.Message
-        ? this.messageContextMenuMap.get(commandName)
-        : this.userContextMenuMap.get(commandName);
+        ? this.messageContextMenuMap.get(key)
+        : this.userContextMenuMap.get(key);
     if (!command) {
       this.logger?.error(
         `Unregistered context command ${commandName} being run`
@@ -1011,57 +2071,89 @@ export class SlashasaurusClient extends Client<true> {
       throw new Error(`Unregistered command ${commandName} was run`);
     } else {
       this.logger?.info(`Running context command ${commandName}`);
-      // @ts-expect-error This is going to complain because the context menu handler is typed with a more specific type
-      this.contextMenuMiddleware.execute(command.run, interaction, this);
+      await this.measure('contextMenu', { command: commandName }, async () => {
+        const stopAutoDefer = enableAutoDefer(
+          interaction,
+          command.commandInfo.autoDefer ?? this.autoDefer,
+          'reply'
+        );
+        try {
+          if (
+            !(await this.checkPreconditions(
+              command.commandInfo.preconditions ?? [],
+              interaction
+            ))
+          )
+            return;
+          if (
+            !(await this.checkCooldown(
+              `${command.commandInfo.type.toLowerCase()}:${key}`,
+              command.commandInfo.cooldown,
+              interaction
+            ))
+          )
+            return;
+          await this.contextMenuMiddleware.execute(
+            command.run,
+            // @ts-expect-error This is going to complain because the context menu handler is typed with a more specific type
+            interaction,
+            this
+          );
+        } finally {
+          stopAutoDefer();
+        }
+      });
     }
   }
 
   private async handlePageButton(interaction: ButtonInteraction) {
-    let page = this.activePages.get(interaction.message.id);
-    if (!page) {
-      page = await this.getPageFromMessage(interaction.message.id, interaction);
+    const stopAutoDefer = this.enablePageAutoDefer(interaction);
+    try {
+      let page = this.activePages.get(interaction.message.id);
       if (!page) {
-        return;
+        page = await this.getPageFromMessage(
+          interaction.message.id,
+          interaction
+        );
+        if (!page) {
+          return;
+        }
+        this.activePages.set(interaction.message.id, page);
+        const renderedPage = await this.renderPage(page);
+        if (!compareMessages(interaction.message, renderedPage)) {
+          await interaction.update({
+            content: null,
+            embeds: [],
+            ...renderedPage,
+            components: renderedPage.components
+              ? pageComponentRowsToComponents(renderedPage.components, page)
+              : [],
+            fetchReply: true,
+            flags: renderedPage.flags as any,
+          });
+          await interaction.followUp({
+            content:
+              "An older version of this page was stored, it's been updated. Click the button you want again.",
+            ephemeral: true,
+          });
+          return;
+        }
       }
-      this.activePages.set(interaction.message.id, page);
-      const renderedPage = await page.render();
-      if (!compareMessages(interaction.message, renderedPage)) {
-        await interaction.update({
-          content: null,
-          embeds: [],
-          ...renderedPage,
-          components: renderedPage.components
-            ? pageComponentRowsToComponents(renderedPage.components, page)
-            : [],
-          fetchReply: true,
-          flags: renderedPage.flags as any,
-        });
-        interaction.followUp({
-          content:
-            "An older version of this page was stored, it's been updated. Click the button you want again.",
-          ephemeral: true,
-        });
-        return;
+      const message = page.message;
+      if (message instanceof PageInteractionReplyMessage) {
+        // If this page was an interaction reply (meaning it was ephemeral), update the interaction to extend the lifetime of the token
+        page.message = new PageInteractionReplyMessage(
+          interaction.webhook,
+          message.id
+        );
+        // Store the updated page
+        await this.savePageState(page);
       }
+      page.latestInteraction = interaction;
+      await this.dispatchPageComponent(interaction, page);
+    } finally {
+      stopAutoDefer();
     }
-    const message = page.message;
-    if (message instanceof PageInteractionReplyMessage) {
-      // If this page was an interaction reply (meaning it was ephemeral), update the interaction to extend the lifetime of the token
-      page.message = new PageInteractionReplyMessage(
-        interaction.webhook,
-        message.id
-      );
-      // Store the updated page
-      const state = await page.serializeState();
-      this.storePageState(
-        page.message.id,
-        page.constructor.pageId,
-        state,
-        messageToMessageData(page.message)
-      );
-    }
-    page.latestInteraction = interaction;
-    page.handleId(interaction.customId.split(';')[1], interaction);
   }
 
   private async handlePageSelect(
@@ -1072,49 +2164,79 @@ export class SlashasaurusClient extends Client<true> {
       | ChannelSelectMenuInteraction
       | MentionableSelectMenuInteraction
   ) {
-    let page = this.activePages.get(interaction.message.id);
-    if (!page) {
-      page = await this.getPageFromMessage(interaction.message.id, interaction);
+    const stopAutoDefer = this.enablePageAutoDefer(interaction);
+    try {
+      let page = this.activePages.get(interaction.message.id);
       if (!page) {
-        return;
+        page = await this.getPageFromMessage(
+          interaction.message.id,
+          interaction
+        );
+        if (!page) {
+          return;
+        }
+        this.activePages.set(interaction.message.id, page);
+        const renderedPage = await this.renderPage(page);
+        if (!compareMessages(interaction.message, renderedPage)) {
+          await interaction.update({
+            ...renderedPage,
+            components: renderedPage.components
+              ? pageComponentRowsToComponents(renderedPage.components, page)
+              : [],
+            fetchReply: true,
+            flags: renderedPage.flags as any,
+          });
+          await interaction.followUp({
+            content:
+              "An older version of this page was stored, it's been updated. Make your selection again.",
+            ephemeral: true,
+          });
+          return;
+        }
       }
-      this.activePages.set(interaction.message.id, page);
-      const renderedPage = await page.render();
-      if (!compareMessages(interaction.message, renderedPage)) {
-        await interaction.update({
-          ...renderedPage,
-          components: renderedPage.components
-            ? pageComponentRowsToComponents(renderedPage.components, page)
-            : [],
-          fetchReply: true,
-          flags: renderedPage.flags as any,
-        });
-        interaction.followUp({
-          content:
-            "An older version of this page was stored, it's been updated. Make your selection again.",
-          ephemeral: true,
-        });
-        return;
+      const message = page.message;
+      if (message instanceof PageInteractionReplyMessage) {
+        // If this page was an interaction reply (meaning it was ephemeral), update the interaction to extend the lifetime of the token
+        page.message = new PageInteractionReplyMessage(
+          interaction.webhook,
+          message.id
+        );
+        // Store the updated page
+        await this.savePageState(page);
       }
+      page.latestInteraction = interaction;
+      await this.dispatchPageComponent(interaction, page);
+    } finally {
+      stopAutoDefer();
     }
-    const message = page.message;
-    if (message instanceof PageInteractionReplyMessage) {
-      // If this page was an interaction reply (meaning it was ephemeral), update the interaction to extend the lifetime of the token
-      page.message = new PageInteractionReplyMessage(
-        interaction.webhook,
-        message.id
-      );
-      // Store the updated page
-      const state = await page.serializeState();
-      this.storePageState(
-        page.message.id,
-        page.constructor.pageId,
-        state,
-        messageToMessageData(page.message)
-      );
-    }
-    page.latestInteraction = interaction;
-    page.handleId(interaction.customId.split(';')[1], interaction);
+  }
+
+  private async dispatchPageComponent(
+    interaction: PageComponentInteraction,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    page: Page<any, any>
+  ) {
+    await this.measure('pageComponent', { page: page.constructor.pageId }, () =>
+      this.pageMiddleware.execute(
+        (interaction, _client, page) =>
+          page.handleId(interaction.customId.split(';')[1], interaction),
+        interaction,
+        this,
+        page
+      )
+    );
+  }
+
+  // Started as soon as the interaction arrives, so loading the page counts
+  // towards the threshold. A page that isn't in memory yet uses the client's
+  // setting since its class isn't known until its state is loaded.
+  private enablePageAutoDefer(interaction: PageComponentInteraction) {
+    const page = this.activePages.get(interaction.message.id);
+    return enableAutoDefer(
+      interaction,
+      page?.constructor.autoDefer ?? this.autoDefer,
+      'update'
+    );
   }
 
   private async handleModalSubmit(interaction: ModalSubmitInteraction) {
@@ -1124,7 +2246,25 @@ export class SlashasaurusClient extends Client<true> {
     interaction.fields.fields.forEach((field) => {
       values[field.customId] = field.value;
     });
-    modal.handler(interaction, values);
+    const stopAutoDefer = enableAutoDefer(
+      interaction,
+      modal.autoDefer ?? this.autoDefer,
+      'reply'
+    );
+    try {
+      await this.measure('modal', { modal: modal.customId }, () =>
+        this.modalMiddleware.execute(
+          (interaction, _client, modal, values, ctx) =>
+            modal.handler(interaction, values, ctx),
+          interaction,
+          this,
+          modal,
+          values
+        )
+      );
+    } finally {
+      stopAutoDefer();
+    }
   }
 
   async replyToInteractionWithPage<P, S>(
@@ -1132,7 +2272,7 @@ export class SlashasaurusClient extends Client<true> {
     interaction: MessageComponentInteraction | CommandInteraction,
     ephemeral: boolean
   ) {
-    const messageOptions = await page.render();
+    const messageOptions = await this.renderPage(page);
     if (ephemeral) {
       // We need to save the interaction instead since it doesn't return a message we can edit
       const message = await interaction.reply({
@@ -1144,21 +2284,17 @@ export class SlashasaurusClient extends Client<true> {
         ephemeral: true,
         fetchReply: true,
         flags: messageOptions.flags as unknown as BitFieldResolvable<
-          'SuppressEmbeds' | 'Ephemeral',
-          number
+          'SuppressEmbeds' | 'Ephemeral' | 'SuppressNotifications',
+          | MessageFlags.SuppressEmbeds
+          | MessageFlags.Ephemeral
+          | MessageFlags.SuppressNotifications
         >,
       });
-      page.message = new PageInteractionReplyMessage(
-        interaction.webhook,
-        message.id
-      );
-      const state = await page.serializeState();
-      this.storePageState(
-        message.id,
-        page.constructor.pageId,
-        state,
-        messageToMessageData(page.message)
-      );
+      // Commands run from a message reply with a message instead of a webhook
+      page.message = isPrefixCommandInteraction(interaction)
+        ? message
+        : new PageInteractionReplyMessage(interaction.webhook, message.id);
+      await this.savePageState(page);
       this.activePages.set(message.id, page);
     } else {
       const message = await interaction.reply({
@@ -1169,28 +2305,24 @@ export class SlashasaurusClient extends Client<true> {
           : [],
         fetchReply: true,
         flags: messageOptions.flags as unknown as BitFieldResolvable<
-          'SuppressEmbeds' | 'Ephemeral',
-          number
+          'SuppressEmbeds' | 'Ephemeral' | 'SuppressNotifications',
+          | MessageFlags.SuppressEmbeds
+          | MessageFlags.Ephemeral
+          | MessageFlags.SuppressNotifications
         >,
       });
-      page.message = new PageInteractionReplyMessage(
-        interaction.webhook,
-        message.id
-      );
-      const state = await page.serializeState();
-      this.storePageState(
-        message.id,
-        page.constructor.pageId,
-        state,
-        messageToMessageData(page.message)
-      );
+      // Commands run from a message reply with a message instead of a webhook
+      page.message = isPrefixCommandInteraction(interaction)
+        ? message
+        : new PageInteractionReplyMessage(interaction.webhook, message.id);
+      await this.savePageState(page);
       this.activePages.set(message.id, page);
     }
     page.pageDidSend?.();
   }
 
-  async sendPageToChannel<P, S>(page: Page<P, S>, channel: TextBasedChannel) {
-    const messageOptions = await page.render();
+  async sendPageToChannel<P, S>(page: Page<P, S>, channel: SendableChannels) {
+    const messageOptions = await this.renderPage(page);
     const message = await channel.send({
       ...messageOptions,
       content: messageOptions.content ?? undefined,
@@ -1199,13 +2331,7 @@ export class SlashasaurusClient extends Client<true> {
         : [],
     });
     page.message = message;
-    const state = await page.serializeState();
-    this.storePageState(
-      message.id,
-      page.constructor.pageId,
-      state,
-      messageToMessageData(page.message)
-    );
+    await this.savePageState(page);
     this.activePages.set(message.id, page);
     page.pageDidSend?.();
   }
@@ -1215,7 +2341,7 @@ export class SlashasaurusClient extends Client<true> {
     postTitle: string,
     channel: ForumChannel
   ) {
-    const messageOptions = await page.render();
+    const messageOptions = await this.renderPage(page);
     const thread = await channel.threads.create({
       name: postTitle,
       message: {
@@ -1227,50 +2353,44 @@ export class SlashasaurusClient extends Client<true> {
       },
     });
     page.message = thread.lastMessage!;
-    const state = await page.serializeState();
-    this.storePageState(
-      thread.lastMessage!.id,
-      page.constructor.pageId,
-      state,
-      messageToMessageData(page.message)
-    );
+    await this.savePageState(page);
     this.activePages.set(thread.lastMessage!.id, page);
   }
 
   async updatePage<P, S>(page: Page<P, S>, newState: S) {
-    if (!page.message)
-      throw new Error('You cannot update a page before it has been sent');
-    page.state = newState;
-    const messageOptions = await page.render();
     const { message } = page;
-    if (
-      message instanceof PageInteractionReplyMessage &&
-      page.latestInteraction &&
-      !(page.latestInteraction.deferred || page.latestInteraction.replied)
-    ) {
-      await page.latestInteraction.update({
-        ...messageOptions,
-        components: messageOptions.components
-          ? pageComponentRowsToComponents(messageOptions.components, page)
-          : [],
-        flags: messageOptions.flags as any,
-      });
-    } else {
-      await message.edit({
-        ...messageOptions,
-        components: messageOptions.components
-          ? pageComponentRowsToComponents(messageOptions.components, page)
-          : [],
-        flags: messageOptions.flags as any,
-      });
-    }
-    const state = await page.serializeState();
-    this.activePages.set(message.id, page);
-    this.storePageState(
-      page.message instanceof Message ? page.message.id : page.message.id,
-      page.constructor.pageId,
-      state,
-      messageToMessageData(page.message)
+    if (!message)
+      throw new Error('You cannot update a page before it has been sent');
+    await this.measure(
+      'pageUpdate',
+      { page: page.constructor.pageId },
+      async () => {
+        page.state = newState;
+        const messageOptions = await this.renderPage(page);
+        if (
+          message instanceof PageInteractionReplyMessage &&
+          page.latestInteraction &&
+          !(page.latestInteraction.deferred || page.latestInteraction.replied)
+        ) {
+          await page.latestInteraction.update({
+            ...messageOptions,
+            components: messageOptions.components
+              ? pageComponentRowsToComponents(messageOptions.components, page)
+              : [],
+            flags: messageOptions.flags as any,
+          });
+        } else {
+          await message.edit({
+            ...messageOptions,
+            components: messageOptions.components
+              ? pageComponentRowsToComponents(messageOptions.components, page)
+              : [],
+            flags: messageOptions.flags as any,
+          });
+        }
+        this.activePages.set(message.id, page);
+        await this.savePageState(page);
+      }
     );
   }
 
@@ -1281,47 +2401,88 @@ export class SlashasaurusClient extends Client<true> {
     const id = typeof messageOrId === 'string' ? messageOrId : messageOrId.id;
     const cachedPage = this.activePages.get(id);
     if (!cachedPage) {
-      const { pageId, stateString, messageData } = await this.getPageState(id);
-      const message =
-        messageOrId instanceof Message
-          ? messageOrId
-          : await this.getMessage(JSON.parse(messageData));
-      if (!message)
-        throw new Error(
-          `Failed to load Page message. ${JSON.stringify(messageData)}`
-        );
-      const { page: pageConstructor, deserialize } =
-        this.pageMap.get(pageId) ?? {};
-      if (!pageConstructor || !deserialize)
-        throw new Error(
-          `A component tried to load a page type that isn't registered, ${pageId}`
+      const labels: InstrumentationLabels = {};
+      return this.measure('pageWake', labels, async () => {
+        const { pageId, stateString, messageData } = await this.getPageState(
+          id
         );
-      const deserialized = await deserialize(stateString, interaction);
-      if (!('props' in deserialized)) {
-        if (message instanceof Message) {
-          await message.delete();
-        } else {
-          await message.edit({
-            content: 'This page has been closed',
-            components: [],
-          });
+        labels.page = pageId;
+        const message =
+          messageOrId instanceof Message
+            ? messageOrId
+            : await this.getMessage(JSON.parse(messageData));
+        if (!message)
+          throw new Error(
+            `Failed to load Page message. ${JSON.stringify(messageData)}`
+          );
+        const { page: pageConstructor, deserialize } =
+          this.pageMap.get(pageId) ?? {};
+        if (!pageConstructor || !deserialize)
+          throw new Error(
+            `A component tried to load a page type that isn't registered, ${pageId}`
+          );
+        const deserialized = await deserialize(stateString, interaction);
+        if (!('props' in deserialized)) {
+          if (message instanceof Message) {
+            await message.delete();
+          } else {
+            await message.edit({
+              content: 'This page has been closed',
+              components: [],
+            });
+          }
+          return;
         }
-        return;
-      }
-      const { props, state } = deserialized;
-      // @ts-expect-error will complain, but we know this is a constructor and JS will complain if we don't do `new`
-      const newPage: Page = new pageConstructor(props);
-      newPage.state = state;
-      newPage.message = message;
-      const rendered = await newPage.render();
-      if (rendered.components)
-        pageComponentRowsToComponents(rendered.components, newPage);
-      this.activePages.set(message.id, newPage);
-      return newPage;
+        const { props, state } = deserialized;
+        // @ts-expect-error will complain, but we know this is a constructor and JS will complain if we don't do `new`
+        const newPage: Page = new pageConstructor(props);
+        newPage.state = state;
+        newPage.message = message;
+        const rendered = await this.renderPage(newPage);
+        if (rendered.components)
+          pageComponentRowsToComponents(rendered.components, newPage);
+        this.activePages.set(message.id, newPage);
+        return newPage;
+      });
     }
     return cachedPage;
   }
 
+  private renderPage<P, S>(page: Page<P, S>) {
+    return this.measure('pageRender', { page: page.constructor.pageId }, () =>
+      page.render()
+    );
+  }
+
+  /**
+   * Serializes the page's state and stores it
+   */
+  private async savePageState<P, S>(page: Page<P, S>) {
+    const { message } = page;
+    if (!message)
+      throw new Error('You cannot store a page before it has been sent');
+    const state = await page.serializeState();
+    await this.measure(
+      'pageStateStore',
+      { page: page.constructor.pageId },
+      () =>
+        this.storePageState(
+          message.id,
+          page.constructor.pageId,
+          state,
+          messageToMessageData(message)
+        )
+    );
+  }
+
+  private measure<T>(
+    operation: InstrumentedOperation,
+    labels: InstrumentationLabels,
+    fn: () => MaybePromise<T>
+  ) {
+    return instrument(this.instrumentation, operation, labels, fn);
+  }
+
   private async getMessage(messageData: MessageData | InteractionMessageData) {
     if ('guildId' in messageData) {
       try {
@@ -1359,6 +2520,111 @@ export class SlashasaurusClient extends Client<true> {
   }
 }
 
+/**
+ * Loads a `_middleware` file, the default export can be a single middleware
+ * function or an array of them
+ */
+async function loadMiddlewareFile(filePath: string) {
+  const data = await import(filePath);
+  const middleware = Array.isArray(data.default)
+    ? data.default
+    : [data.default];
+  if (middleware.some((fn: unknown) => typeof fn !== 'function')) {
+    throw new Error(
+      `Expected the default export in file ${filePath} to be a middleware function or an array of middleware functions`
+    );
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return middleware as Middleware<CommandRunFunction<[]>, any>[];
+}
+
+/**
+ * The key a command is routed by. Guild commands are keyed by their guild too,
+ * so every guild can have its own command with the same name.
+ */
+function routeKey(name: string, guildId?: string | null) {
+  return guildId ? `${guildId}:${name}` : name;
+}
+
+function subtractCommandKeys(a: CommandKeys, b: CommandKeys): CommandKeys {
+  return {
+    chat: a.chat.filter((key) => !b.chat.includes(key)),
+    user: a.user.filter((key) => !b.user.includes(key)),
+    message: a.message.filter((key) => !b.message.includes(key)),
+  };
+}
+
+function buildContextMenuCommand(
+  info: MessageCommand['commandInfo'] | UserCommand['commandInfo'],
+  type: ApplicationCommandType.Message | ApplicationCommandType.User
+) {
+  assertNoDefinitionIssues(validateContextMenuInfo(info));
+  const builder = new ContextMenuCommandBuilder()
+    .setName(info.name)
+    .setType(type)
+    .setNameLocalizations(info.nameLocalizations ?? null)
+    .setDefaultMemberPermissions(info.defaultMemberPermissions ?? null)
+    .setDMPermission(info.dmPermission ?? null);
+  if (info.integrationTypes) builder.setIntegrationTypes(info.integrationTypes);
+  if (info.contexts) builder.setContexts(info.contexts);
+  return builder;
+}
+
+function buildCommandGroup(
+  name: string,
+  metadata: CommandGroupMetadata,
+  commandData: (
+    | SlashCommandSubcommandBuilder
+    | SlashCommandSubcommandGroupBuilder
+  )[]
+) {
+  assertNoDefinitionIssues(
+    validateCommandGroupInfo(name, metadata, commandData.length)
+  );
+  const builder = new SlashCommandBuilder()
+    .setName(name)
+    .setNameLocalizations(metadata.nameLocalizations ?? null)
+    .setDescription(metadata.description)
+    .setDescriptionLocalizations(metadata.descriptionLocalizations ?? null)
+    .setDefaultMemberPermissions(metadata.defaultMemberPermissions ?? null)
+    .setDMPermission(metadata.dmPermission ?? null);
+  if (metadata.integrationTypes)
+    builder.setIntegrationTypes(metadata.integrationTypes);
+  if (metadata.contexts) builder.setContexts(metadata.contexts);
+
+  commandData.forEach((subcommand) => {
+    if (subcommand instanceof SlashCommandSubcommandBuilder) {
+      builder.addSubcommand(subcommand);
+    } else {
+      builder.addSubcommandGroup(subcommand);
+    }
+  });
+
+  assertNoDefinitionIssues(validateCommandSize(builder.toJSON()));
+  return builder;
+}
+
+function buildSubcommandGroup(
+  name: string,
+  metadata: CommandGroupMetadata,
+  commandData: SlashCommandSubcommandBuilder[]
+) {
+  assertNoDefinitionIssues(
+    validateCommandGroupInfo(name, metadata, commandData.length)
+  );
+  const builder = new SlashCommandSubcommandGroupBuilder()
+    .setName(name)
+    .setNameLocalizations(metadata.nameLocalizations ?? null)
+    .setDescription(metadata.description)
+    .setDescriptionLocalizations(metadata.descriptionLocalizations ?? null);
+
+  commandData.forEach((subcommand) => {
+    builder.addSubcommand(subcommand);
+  });
+
+  return builder;
+}
+
 function messageToMessageData(
   message: Message | PageInteractionReplyMessage
 ): string {
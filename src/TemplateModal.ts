@@ -7,6 +7,9 @@ import {
 	ModalSubmitInteraction,
 	TextInputStyle,
 } from 'discord.js';
+import { AutoDeferSetting } from './AutoDefer';
+import type { CommandContext } from './MiddlewarePipeline';
+import type { SlashasaurusClient } from './SlashasaurusClient';
 
 type ExtractFromDelimiters<
   S extends string,
@@ -89,6 +92,15 @@ function replaceVariables(target: string, variables: any) {
   return target.replace(/\{\{(.+?)\}\}/g, (_, variable) => variables[variable]);
 }
 
+export type ModalHandlerFunction = (
+  interaction: ModalSubmitInteraction,
+  client: SlashasaurusClient,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  modal: TemplateModal<any, any>,
+  values: Record<string, string>,
+  ctx: Partial<CommandContext>
+) => void;
+
 export class TemplateModal<
   const T extends ReadonlyArray<ReadonlyTextInputProps>,
   U extends string
@@ -98,22 +110,30 @@ export class TemplateModal<
   public readonly components: T;
   public readonly handler: (
     interaction: ModalSubmitInteraction,
-    values: ModalValuesType<T>
+    values: ModalValuesType<T>,
+    ctx: Partial<CommandContext>
   ) => void;
+  public readonly autoDefer?: AutoDeferSetting;
 
+  /**
+   * @param options.autoDefer Defers the reply if the handler takes too long to respond, this overrides the client's `autoDefer` setting
+   */
   public constructor(
     title: U,
     customId: string,
     components: T,
     handler: (
       interaction: ModalSubmitInteraction,
-      values: ModalValuesType<T>
-    ) => void
+      values: ModalValuesType<T>,
+      ctx: Partial<CommandContext>
+    ) => void,
+    options: { autoDefer?: AutoDeferSetting } = {}
   ) {
     this.title = title;
     this.customId = customId;
     this.components = components;
     this.handler = handler;
+    this.autoDefer = options.autoDefer;
   }
 
   public getModal(variables: GetModalVariablesInput<T, U>): ModalBuilder {
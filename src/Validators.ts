@@ -0,0 +1,270 @@
+import type { AutocompleteInteraction, CommandInteraction } from 'discord.js';
+import type { LocalizationMap } from 'discord-api-types/v10';
+import { ValidationError } from './CustomErrors';
+
+/**
+ * An error message, `{value}` is replaced with what the user entered. Use an
+ * object to translate the message, the user's locale is used if it's in the
+ * object and `default` otherwise.
+ */
+export type ValidatorMessage =
+  | string
+  | ({ default: string } & LocalizationMap)
+  | ((
+      value: string,
+      interaction: CommandInteraction | AutocompleteInteraction
+    ) => string);
+
+/**
+ * A validator and transformer for string options, spread this into the option:
+ *
+ * ```ts
+ * { type: 'STRING', name: 'length', description: 'How long', ...duration() }
+ * ```
+ */
+export interface StringOptionParser<T> {
+  validator: (interaction: CommandInteraction, value: string) => true | string;
+  transformer: (
+    value: string,
+    interaction: CommandInteraction | AutocompleteInteraction
+  ) => T;
+}
+
+interface ParserOptions {
+  /**
+   * Replaces the error messages of this validator
+   */
+  message?: ValidatorMessage;
+}
+
+function resolveMessage(
+  message: ValidatorMessage,
+  value: string,
+  interaction: CommandInteraction | AutocompleteInteraction
+) {
+  if (typeof message === 'function') return message(value, interaction);
+  const text =
+    typeof message === 'string'
+      ? message
+      : message[interaction.locale] ?? message.default;
+  return text.replace(/\{value\}/g, value);
+}
+
+/**
+ * Builds the validator and transformer from one parse function
+ *
+ * @param parse Returns the parsed value, or the default error message if the value is invalid
+ */
+function createParser<T>(
+  parse: (value: string) => { value: T } | { error: string },
+  options: ParserOptions
+): StringOptionParser<T> {
+  return {
+    validator: (interaction, value) => {
+      const result = parse(value);
+      if ('value' in result) return true;
+      return resolveMessage(
+        options.message ?? result.error,
+        value,
+        interaction
+      );
+    },
+    transformer: (value, interaction) => {
+      const result = parse(value);
+      if ('value' in result) return result.value;
+      // Validators don't run for autocomplete, so this can still be invalid
+      throw new ValidationError(
+        resolveMessage(options.message ?? result.error, value, interaction)
+      );
+    },
+  };
+}
+
+/**
+ * The value has to match the pattern, and is turned into the match
+ */
+export function regex(pattern: RegExp, options: ParserOptions = {}) {
+  return createParser<RegExpExecArray>((value) => {
+    // Global patterns keep state between calls
+    pattern.lastIndex = 0;
+    const match = pattern.exec(value);
+    return match
+      ? { value: match }
+      : { error: `\`{value}\` isn't in the right format.` };
+  }, options);
+}
+
+/**
+ * The value has to be a url, and is turned into a `URL`
+ *
+ * @param options.protocols The allowed protocols, defaults to http and https
+ */
+export function url(options: ParserOptions & { protocols?: string[] } = {}) {
+  const protocols = (options.protocols ?? ['http', 'https']).map(
+    (protocol) => `${protocol.replace(/:$/, '')}:`
+  );
+  return createParser<URL>((value) => {
+    try {
+      const parsed = new URL(value);
+      if (protocols.includes(parsed.protocol)) return { value: parsed };
+    } catch {
+      // Not a url
+    }
+    return { error: `\`{value}\` isn't a valid link.` };
+  }, options);
+}
+
+/**
+ * The value has to be a hex color like `#ff8800` or `f80`, and is turned into
+ * a number that can be used for embed colors
+ */
+export function hexColor(options: ParserOptions = {}) {
+  return createParser<number>((value) => {
+    const match = /^#?([\da-f]{3}|[\da-f]{6})$/i.exec(value.trim());
+    if (!match)
+      return { error: `\`{value}\` isn't a hex color, e.g. #ff8800.` };
+    const hex =
+      match[1].length === 3
+        ? [...match[1]].map((digit) => digit + digit).join('')
+        : match[1];
+    return { value: parseInt(hex, 16) };
+  }, options);
+}
+
+const durationUnits: Record<string, number> = {
+  w: 7 * 24 * 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  h: 60 * 60 * 1000,
+  m: 60 * 1000,
+  s: 1000,
+};
+
+/**
+ * Parses durations like `1h30m` or `2d 12h`
+ *
+ * @returns The duration in ms, or nothing if it isn't a valid duration
+ */
+export function parseDuration(text: string) {
+  const trimmed = text.trim().toLowerCase();
+  if (!/^(\d+(\.\d+)?\s*[wdhms]\s*)+$/.test(trimmed)) return undefined;
+  let total = 0;
+  for (const [, amount, , unit] of trimmed.matchAll(
+    /(\d+(\.\d+)?)\s*([wdhms])/g
+  )) {
+    total += parseFloat(amount) * durationUnits[unit];
+  }
+  return Math.round(total);
+}
+
+/**
+ * The value has to be a duration like `1h30m`, and is turned into ms
+ *
+ * @param options.min The shortest allowed duration in ms
+ * @param options.max The longest allowed duration in ms
+ */
+export function duration(
+  options: ParserOptions & { min?: number; max?: number } = {}
+) {
+  return createParser<number>((value) => {
+    const ms = parseDuration(value);
+    if (ms === undefined)
+      return { error: `\`{value}\` isn't a valid duration, e.g. 1h30m.` };
+    if (options.min !== undefined && ms < options.min)
+      return {
+        error: `The duration must be at least ${formatDuration(options.min)}.`,
+      };
+    if (options.max !== undefined && ms > options.max)
+      return {
+        error: `The duration must be at most ${formatDuration(options.max)}.`,
+      };
+    return { value: ms };
+  }, options);
+}
+
+function formatDuration(ms: number) {
+  let remaining = ms;
+  const parts: string[] = [];
+  for (const [unit, size] of Object.entries(durationUnits)) {
+    const amount = Math.floor(remaining / size);
+    if (amount > 0) parts.push(`${amount}${unit}`);
+    remaining -= amount * size;
+  }
+  return parts.join('') || '0s';
+}
+
+/**
+ * The value has to be a date, and is turned into a `Date`. This accepts ISO
+ * dates like `2024-05-01` or `2024-05-01T12:00Z` and Discord timestamps like
+ * `<t:1714564800:R>`.
+ *
+ * @param options.min The earliest allowed date
+ * @param options.max The latest allowed date
+ */
+export function date(options: ParserOptions & { min?: Date; max?: Date } = {}) {
+  return createParser<Date>((value) => {
+    const timestamp = /^<t:(-?\d+)(:[tTdDfFR])?>$/.exec(value.trim());
+    const parsed = timestamp
+      ? new Date(parseInt(timestamp[1]) * 1000)
+      : /^\d{4}-\d{2}-\d{2}/.test(value.trim())
+      ? new Date(value.trim())
+      : new Date(NaN);
+    if (isNaN(parsed.getTime()))
+      return { error: `\`{value}\` isn't a valid date, e.g. 2024-05-01.` };
+    if (options.min && parsed < options.min)
+      return {
+        error: `The date must be on or after ${options.min.toISOString()}.`,
+      };
+    if (options.max && parsed > options.max)
+      return {
+        error: `The date must be on or before ${options.max.toISOString()}.`,
+      };
+    return { value: parsed };
+  }, options);
+}
+
+/**
+ * The value has to be a Discord id
+ */
+export function snowflake(options: ParserOptions = {}) {
+  return createParser<string>(
+    (value) =>
+      /^\d{17,20}$/.test(value.trim())
+        ? { value: value.trim() }
+        : { error: `\`{value}\` isn't a valid id.` },
+    options
+  );
+}
+
+export interface ParsedEmoji {
+  /**
+   * The id of a custom emoji, this is null for unicode emoji
+   */
+  id: string | null;
+  /**
+   * The name of a custom emoji, or the unicode emoji itself
+   */
+  name: string;
+  animated: boolean;
+}
+
+// A pictograph, flag, or keycap, followed by skin tones, joiners, and more
+// pictographs for sequences like 👩‍💻
+const unicodeEmoji =
+  /^(\p{Extended_Pictographic}|\p{Regional_Indicator}|[#*\d]\uFE0F?\u20E3)(\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200D|\uFE0F)*$/u;
+
+/**
+ * The value has to be a unicode emoji or a custom emoji like `<:name:id>`
+ */
+export function emoji(options: ParserOptions = {}) {
+  return createParser<ParsedEmoji>((value) => {
+    const trimmed = value.trim();
+    const custom = /^<(a?):(\w{2,32}):(\d{17,20})>$/.exec(trimmed);
+    if (custom)
+      return {
+        value: { id: custom[3], name: custom[2], animated: custom[1] === 'a' },
+      };
+    if (unicodeEmoji.test(trimmed))
+      return { value: { id: null, name: trimmed, animated: false } };
+    return { error: `\`{value}\` isn't an emoji.` };
+  }, options);
+}
@@ -0,0 +1,204 @@
+#!/usr/bin/env node
+import { resolve } from 'path';
+import { ApplicationCommandType } from 'discord-api-types/v10';
+import { deployCommandsFrom } from './CommandDeploy';
+import {
+  commandTypeNames,
+  deleteCommands,
+  formatCommandDiff,
+  listCommands,
+} from './CommandSync';
+
+const usage = `Usage: slashasaurus <command> [options]
+
+Commands:
+  deploy <folder>     Deploy the commands in <folder> (the folder containing chat/, user/ and message/)
+  list                List the registered commands
+  delete <names...>   Delete the given commands
+  delete --all        Delete every command
+
+Options:
+  --app-id <id>       The application id (or set DISCORD_APPLICATION_ID)
+  --token <token>     The bot token (or set DISCORD_TOKEN)
+  --guild <id>        Use the commands of this guild instead of the global commands
+  --dry-run           Only show what deploy would change
+  --all               Let delete remove every command
+  --type <type>       Only delete commands of this type (chat, user, message or "entry point")
+  --help              Show this message`;
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+// Flags that never take a separate value, `--flag=true` and `--flag=false` also work
+const booleanFlags = ['dry-run', 'all', 'help'];
+
+export function parseArgs(args: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: ParsedArgs['flags'] = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    // Only the first `=` splits, values like tokens can contain more
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (booleanFlags.includes(name) && inlineValue !== undefined) {
+      if (inlineValue !== 'true' && inlineValue !== 'false')
+        throw new Error(`--${name} must be true or false`);
+      flags[name] = inlineValue === 'true';
+    } else if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (
+      !booleanFlags.includes(name) &&
+      args[i + 1] !== undefined &&
+      !args[i + 1].startsWith('--')
+    ) {
+      flags[name] = args[++i];
+    } else {
+      flags[name] = true;
+    }
+  }
+  return { positionals, flags };
+}
+
+function getStringFlag(
+  flags: ParsedArgs['flags'],
+  name: string,
+  envName?: string
+) {
+  const value = flags[name];
+  if (typeof value === 'string') return value;
+  if (envName) return process.env[envName];
+  return undefined;
+}
+
+async function main(args: string[]) {
+  let parsed: ParsedArgs;
+  try {
+    parsed = parseArgs(args);
+  } catch (e) {
+    console.error(`${(e as Error).message}\n`);
+    console.error(usage);
+    return 1;
+  }
+  const { positionals, flags } = parsed;
+  const [command, ...rest] = positionals;
+  if (flags.help || !command) {
+    console.log(usage);
+    return command || flags.help ? 0 : 1;
+  }
+
+  const applicationId = getStringFlag(
+    flags,
+    'app-id',
+    'DISCORD_APPLICATION_ID'
+  );
+  const token = getStringFlag(flags, 'token', 'DISCORD_TOKEN');
+  const guildId = getStringFlag(flags, 'guild');
+  if (!applicationId || !token) {
+    console.error('An application id and a token are required\n');
+    console.error(usage);
+    return 1;
+  }
+
+  switch (command) {
+    case 'deploy': {
+      const [folder] = rest;
+      if (!folder) {
+        console.error('deploy needs the folder to load commands from\n');
+        console.error(usage);
+        return 1;
+      }
+      const diff = await deployCommandsFrom({
+        folderPath: resolve(folder),
+        applicationId,
+        token,
+        guildId,
+        dryRun: flags['dry-run'] === true,
+      });
+      console.log(formatCommandDiff(diff));
+      Object.entries(diff.guilds).forEach(([guild, guildDiff]) =>
+        console.log(`\nGuild ${guild}:\n${formatCommandDiff(guildDiff)}`)
+      );
+      return 0;
+    }
+    case 'list': {
+      const commands = await listCommands({ applicationId, token, guildId });
+      if (commands.length === 0) console.log('No commands registered');
+      commands.forEach((command) =>
+        console.log(
+          `${command.id}  ${command.name} (${commandTypeNames[command.type]})`
+        )
+      );
+      return 0;
+    }
+    case 'delete': {
+      if (rest.length === 0 && flags.all !== true) {
+        console.error(
+          'delete needs the names of the commands to delete, or --all to delete every command\n'
+        );
+        console.error(usage);
+        return 1;
+      }
+      if ((rest.length > 0 || flags.type !== undefined) && flags.all === true) {
+        console.error("delete can't take command names or --type with --all\n");
+        console.error(usage);
+        return 1;
+      }
+      const typeName = getStringFlag(flags, 'type');
+      const type = Object.entries(commandTypeNames).find(
+        ([, name]) => name === typeName
+      )?.[0];
+      if (typeName !== undefined && type === undefined) {
+        console.error(`Unknown command type ${typeName}\n`);
+        console.error(usage);
+        return 1;
+      }
+      const deleted = await deleteCommands({
+        applicationId,
+        token,
+        guildId,
+        ...(flags.all === true
+          ? { all: true }
+          : {
+              names: rest,
+              type:
+                type === undefined
+                  ? undefined
+                  : (Number(type) as ApplicationCommandType),
+            }),
+      });
+      deleted.forEach((command) =>
+        console.log(`- ${command.name} (${commandTypeNames[command.type]})`)
+      );
+      const missing = rest.filter(
+        (name) => !deleted.some((command) => command.name === name)
+      );
+      if (missing.length > 0) {
+        console.error(`No registered commands named ${missing.join(', ')}`);
+        return 1;
+      }
+      return 0;
+    }
+    default:
+      console.error(`Unknown command ${command}\n`);
+      console.error(usage);
+      return 1;
+  }
+}
+
+// Only run when used as the cli, not when imported
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (e) => {
+      console.error(e);
+      process.exitCode = 1;
+    }
+  );
+}
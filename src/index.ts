@@ -1,10 +1,27 @@
+export * from './Attachments';
+export * from './Autocomplete';
+export * from './AutoDefer';
 export * from './ContextMenuBase';
+export * from './CommandDeploy';
+export * from './CommandManifest';
+export * from './CommandSync';
+export * from './CommandValidation';
+export * from './Cooldowns';
+export * from './EnumOptions';
+export * from './Instrumentation';
 export * from './SlashasaurusClient';
 export * from './SlashCommandBase';
 export * from './Page';
-export { Middleware } from './MiddlewarePipeline';
+export * from './Preconditions';
+export * from './PrefixCommands';
+export {
+  CommandContext,
+  Middleware,
+  MiddlewareContext,
+} from './MiddlewarePipeline';
 export * from './utilityTypes';
+export * from './Validators';
 export * from './CustomErrors';
 export * from './OptionTypes';
 export * from './PageComponents';
-export { TemplateModal } from './TemplateModal';
+export { ModalHandlerFunction, TemplateModal } from './TemplateModal';
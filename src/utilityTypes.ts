@@ -10,6 +10,7 @@ import {
   VoiceChannel,
   ChannelType,
   ForumChannel,
+  MediaChannel,
 } from 'discord.js';
 import { OptionsDataArray, ApplicationCommandOptionData } from './OptionTypes';
 
@@ -98,6 +99,7 @@ type ChannelsMap = {
   13: StageChannel;
   14: never; // Directory
   15: ForumChannel; // Forum
+  16: MediaChannel; // Media
 };
 
 type MapChannelTypesToChannels<T extends ReadonlyArray<ChannelType>> = {
@@ -106,7 +108,7 @@ type MapChannelTypesToChannels<T extends ReadonlyArray<ChannelType>> = {
 
 type OptionToValue<T extends ApplicationCommandOptionData> = T extends {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  transformer: (value: any) => unknown;
+  transformer: (...args: any[]) => unknown;
 }
   ? Awaited<ReturnType<T['transformer']>>
   : T extends HasChoices
@@ -119,11 +121,18 @@ type OptionToValue<T extends ApplicationCommandOptionData> = T extends {
       | APIInteractionDataResolvedChannel
   : OptionsMap[T['type']];
 
+// Options that are required or have a default value are never null
+type IsAlwaysSet<T extends ApplicationCommandOptionData> =
+  T['required'] extends true
+    ? true
+    : T extends { default: unknown }
+    ? true
+    : false;
+
 export type CommandOptionsObject<T extends OptionsDataArray> = {
-  [Key in T[number]['name']]: Extract<
-    T[number],
-    { name: Key }
-  >['required'] extends true
+  [Key in T[number]['name']]: IsAlwaysSet<
+    Extract<T[number], { name: Key }>
+  > extends true
     ? OptionToValue<Extract<T[number], { name: Key }>>
     : OptionToValue<Extract<T[number], { name: Key }>> | null;
 };
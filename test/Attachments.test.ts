@@ -0,0 +1,115 @@
+import type { Attachment } from 'discord.js';
+import {
+  attachmentAsCsv,
+  checkAttachmentConstraints,
+  parseCsv,
+  ValidationError,
+} from '../src';
+
+function fakeAttachment(attachment: Partial<Attachment>) {
+  return {
+    name: 'file.png',
+    size: 1000,
+    contentType: 'image/png',
+    width: 100,
+    height: 50,
+    url: 'https://cdn.example.com/file',
+    ...attachment,
+  } as Attachment;
+}
+
+describe('checkAttachmentConstraints', () => {
+  it('accepts attachments that fit every constraint', () => {
+    expect(
+      checkAttachmentConstraints('image', fakeAttachment({}), {
+        contentTypes: ['image/*'],
+        extensions: ['png'],
+        maxSize: 1000,
+        maxWidth: 100,
+        minHeight: 50,
+      })
+    ).toBeUndefined();
+  });
+
+  it('matches content types without their parameters', () => {
+    const csv = fakeAttachment({
+      name: 'Data.CSV',
+      contentType: 'text/csv; charset=utf-8',
+    });
+    expect(
+      checkAttachmentConstraints('data', csv, {
+        contentTypes: ['text/csv'],
+        extensions: ['.csv'],
+      })
+    ).toBeUndefined();
+    expect(
+      checkAttachmentConstraints('data', csv, { contentTypes: ['image/*'] })
+    ).toBe('`data` must be one of these file types: image/*.');
+  });
+
+  it('reports what is wrong', () => {
+    const image = fakeAttachment({});
+    expect(
+      checkAttachmentConstraints('image', image, { extensions: ['.jpg'] })
+    ).toBe('`image` must have one of these extensions: .jpg.');
+    expect(checkAttachmentConstraints('image', image, { maxSize: 512 })).toBe(
+      '`image` must be at most 512 bytes.'
+    );
+    expect(checkAttachmentConstraints('image', image, { minWidth: 200 })).toBe(
+      '`image` must be at least 200 pixels wide.'
+    );
+    expect(checkAttachmentConstraints('image', image, { maxHeight: 10 })).toBe(
+      '`image` must be at most 10 pixels tall.'
+    );
+    expect(
+      checkAttachmentConstraints(
+        'image',
+        fakeAttachment({ width: null, height: null }),
+        { maxWidth: 10 }
+      )
+    ).toBe('`image` must be an image or video.');
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits rows and values', () => {
+    expect(parseCsv('a,b\r\nc,d\n')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('reads quoted values', () => {
+    expect(parseCsv('"a, ""b""","line\nbreak",')).toEqual([
+      ['a, "b"', 'line\nbreak', ''],
+    ]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a;b,c', ';')).toEqual([['a', 'b,c']]);
+  });
+});
+
+describe('attachmentAsCsv', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('turns rows into objects with a header', async () => {
+    jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response('name,age\nAda,36\nAlan'));
+    expect(
+      await attachmentAsCsv({ header: true })(fakeAttachment({ size: 20 }))
+    ).toEqual([
+      { name: 'Ada', age: '36' },
+      { name: 'Alan', age: '' },
+    ]);
+  });
+
+  it("doesn't download attachments that are too large", async () => {
+    const fetch = jest.spyOn(global, 'fetch');
+    await expect(
+      attachmentAsCsv({ maxBytes: 10 })(fakeAttachment({ name: 'big.csv' }))
+    ).rejects.toThrow(new ValidationError('big.csv must be at most 10 bytes.'));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
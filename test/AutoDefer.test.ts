@@ -0,0 +1,90 @@
+import type { CommandInteraction } from 'discord.js';
+import { enableAutoDefer } from '../src';
+
+function fakeInteraction() {
+  const interaction = {
+    replied: false,
+    deferred: false,
+    reply: jest.fn(async () => {
+      interaction.replied = true;
+    }),
+    deferReply: jest.fn(async () => {
+      interaction.deferred = true;
+    }),
+    editReply: jest.fn(async () => {
+      interaction.replied = true;
+    }),
+    followUp: jest.fn(async () => undefined),
+  };
+  return interaction;
+}
+
+describe('enableAutoDefer', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it("doesn't defer handlers that reply in time", async () => {
+    const interaction = fakeInteraction();
+    const { reply, deferReply } = interaction;
+    const stop = enableAutoDefer(
+      interaction as unknown as CommandInteraction,
+      true,
+      'reply'
+    );
+    await (interaction as unknown as CommandInteraction).reply('Hi');
+    stop();
+    await jest.runAllTimersAsync();
+    expect(reply).toHaveBeenCalledWith('Hi');
+    expect(deferReply).not.toHaveBeenCalled();
+  });
+
+  it('defers once the threshold passes and turns reply into editReply', async () => {
+    const interaction = fakeInteraction();
+    const { reply, deferReply, editReply, followUp } = interaction;
+    enableAutoDefer(
+      interaction as unknown as CommandInteraction,
+      { threshold: 500, ephemeral: true },
+      'reply'
+    );
+    await jest.advanceTimersByTimeAsync(499);
+    expect(deferReply).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(deferReply).toHaveBeenCalledWith({ ephemeral: true });
+
+    await (interaction as unknown as CommandInteraction).reply({
+      content: 'Done',
+      ephemeral: false,
+    });
+    expect(reply).not.toHaveBeenCalled();
+    expect(followUp).not.toHaveBeenCalled();
+    expect(editReply).toHaveBeenCalledWith({
+      content: 'Done',
+      ephemeral: false,
+    });
+  });
+
+  it("doesn't defer again when the handler defers itself", async () => {
+    const interaction = fakeInteraction();
+    const { deferReply } = interaction;
+    enableAutoDefer(
+      interaction as unknown as CommandInteraction,
+      { threshold: 500 },
+      'reply'
+    );
+    await (interaction as unknown as CommandInteraction).deferReply();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(deferReply).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing when turned off', async () => {
+    const interaction = fakeInteraction();
+    const { deferReply } = interaction;
+    enableAutoDefer(
+      interaction as unknown as CommandInteraction,
+      false,
+      'reply'
+    );
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(deferReply).not.toHaveBeenCalled();
+  });
+});
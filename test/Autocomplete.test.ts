@@ -0,0 +1,168 @@
+import type { AutocompleteInteraction } from 'discord.js';
+import {
+  AutocompleteCache,
+  autocompleteFrom,
+  filterByQuery,
+  matchScore,
+  normalizeChoices,
+} from '../src';
+
+function autocompleteInteraction({
+  user = '1',
+  guild = '2',
+  subcommand = null as string | null,
+  value = 'q',
+} = {}) {
+  return {
+    user: { id: user },
+    guildId: guild,
+    commandName: 'tag',
+    options: {
+      getSubcommandGroup: () => null,
+      getSubcommand: () => subcommand,
+      getFocused: (full?: boolean) => (full ? { name: 'name', value } : value),
+    },
+  } as unknown as AutocompleteInteraction;
+}
+
+describe('matchScore', () => {
+  it('ranks exact, prefix, word, substring, then fuzzy matches', () => {
+    expect(matchScore('app', 'app')).toBe(4);
+    expect(matchScore('app', 'Apple')).toBe(3);
+    expect(matchScore('app', 'big apple')).toBe(2);
+    expect(matchScore('app', 'snapper')).toBe(1);
+    expect(matchScore('apl', 'apple')).toBe(0.5);
+    expect(matchScore('xyz', 'apple')).toBeUndefined();
+  });
+
+  it('only matches word starts in prefix mode', () => {
+    expect(matchScore('app', 'big apple', 'prefix')).toBe(2);
+    expect(matchScore('app', 'snapper', 'prefix')).toBeUndefined();
+    expect(matchScore('apl', 'apple', 'prefix')).toBeUndefined();
+  });
+
+  it('finds word starts after an earlier match inside a word', () => {
+    expect(matchScore('app', 'snapper apple')).toBe(2);
+    expect(matchScore('app', 'snapper apple', 'prefix')).toBe(2);
+  });
+
+  it('matches everything for an empty query or in none mode', () => {
+    expect(matchScore('  ', 'apple')).toBe(0);
+    expect(matchScore('xyz', 'apple', 'none')).toBe(0);
+  });
+});
+
+describe('filterByQuery', () => {
+  it('puts the best matches first', () => {
+    expect(
+      filterByQuery(['snapper', 'big apple', 'apple', 'pear'], 'app')
+    ).toEqual(['apple', 'big apple', 'snapper']);
+  });
+
+  it('keeps the order of equal matches', () => {
+    expect(
+      filterByQuery(['apple pie', 'apple', 'apple tart'], 'ap', {
+        match: 'prefix',
+      })
+    ).toEqual(['apple pie', 'apple', 'apple tart']);
+  });
+
+  it("doesn't reorder anything in none mode", () => {
+    const items = ['longest item', 'b', 'medium'];
+    expect(filterByQuery(items, 'b', { match: 'none' })).toEqual(items);
+  });
+
+  it('matches the name of choices and custom text', () => {
+    expect(
+      filterByQuery(
+        [
+          { name: 'Red', value: 'r' },
+          { name: 'Blue', value: 'b' },
+        ],
+        'blu'
+      )
+    ).toEqual([{ name: 'Blue', value: 'b' }]);
+    expect(
+      filterByQuery([{ id: 1, title: 'Hello' }], 'hel', {
+        getText: (item) => item.title,
+      })
+    ).toEqual([{ id: 1, title: 'Hello' }]);
+  });
+});
+
+describe('normalizeChoices', () => {
+  it("turns values into choices and applies Discord's limits", () => {
+    const choices = normalizeChoices([
+      { name: 'a'.repeat(150), value: 'a' },
+      3,
+      { name: 'Too long', value: 'v'.repeat(101) },
+      ...Array.from({ length: 30 }, (_, i) => `choice ${i}`),
+    ]);
+    expect(choices).toHaveLength(25);
+    expect(choices[0].name).toHaveLength(100);
+    expect(choices[0].name.endsWith('…')).toBe(true);
+    expect(choices[1]).toEqual({ name: '3', value: 3 });
+    expect(choices[2].name).toBe('choice 0');
+  });
+});
+
+describe('AutocompleteCache', () => {
+  it('reuses values for the same query', async () => {
+    const cache = new AutocompleteCache<number>(1000);
+    const load = jest.fn(() => 1);
+    await cache.wrap(autocompleteInteraction(), load);
+    await cache.wrap(autocompleteInteraction(), load);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys by user, guild, subcommand and query', async () => {
+    const cache = new AutocompleteCache<number>(1000);
+    const load = jest.fn(() => 1);
+    await cache.wrap(autocompleteInteraction(), load);
+    await cache.wrap(autocompleteInteraction({ user: '3' }), load);
+    await cache.wrap(autocompleteInteraction({ guild: '3' }), load);
+    await cache.wrap(autocompleteInteraction({ subcommand: 'edit' }), load);
+    await cache.wrap(autocompleteInteraction({ value: 'other' }), load);
+    expect(load).toHaveBeenCalledTimes(5);
+  });
+
+  it('loads again once values expire', async () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new AutocompleteCache<number>(1000);
+      const load = jest.fn(() => 1);
+      await cache.wrap(autocompleteInteraction(), load);
+      jest.advanceTimersByTime(1000);
+      await cache.wrap(autocompleteInteraction(), load);
+      expect(load).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('autocompleteFrom', () => {
+  it('filters a list and turns the items into choices', async () => {
+    const handler = autocompleteFrom(
+      [
+        { id: 1, title: 'Apple' },
+        { id: 2, title: 'Pear' },
+      ],
+      {
+        getText: (item) => item.title,
+        toChoice: (item) => ({ name: item.title, value: item.id }),
+      }
+    );
+    expect(await handler(autocompleteInteraction(), 'pea')).toEqual([
+      { name: 'Pear', value: 2 },
+    ]);
+  });
+
+  it('passes the query to a source function and keeps its order', async () => {
+    const source = jest.fn(() => ['zebra', 'ant']);
+    const handler = autocompleteFrom(source, { match: 'none' });
+    const interaction = autocompleteInteraction();
+    expect(await handler(interaction, 'a')).toEqual(['zebra', 'ant']);
+    expect(source).toHaveBeenCalledWith('a', interaction);
+  });
+});
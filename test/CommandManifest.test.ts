@@ -0,0 +1,108 @@
+import {
+  ApplicationCommandType,
+  RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import {
+  createCommandManifest,
+  diffCommandManifests,
+  formatCommandManifestDiff,
+  manifestHasChanges,
+  serializeCommandManifest,
+} from '../src';
+
+const ping: RESTPostAPIApplicationCommandsJSONBody = {
+  name: 'ping',
+  description: 'Checks if the bot is alive',
+};
+const echo: RESTPostAPIApplicationCommandsJSONBody = {
+  description: 'Says something back',
+  name: 'echo',
+};
+const profile: RESTPostAPIApplicationCommandsJSONBody = {
+  type: ApplicationCommandType.User,
+  name: 'Profile',
+};
+
+describe('createCommandManifest', () => {
+  it('sorts commands by type and name', () => {
+    const manifest = createCommandManifest([profile, ping, echo], {
+      '2': [ping],
+      '1': [profile, echo],
+    });
+    expect(manifest.global).toEqual([echo, ping, profile]);
+    expect(Object.keys(manifest.guilds)).toEqual(['1', '2']);
+    expect(manifest.guilds['1']).toEqual([echo, profile]);
+  });
+
+  it("doesn't depend on the load order", () => {
+    expect(
+      serializeCommandManifest(createCommandManifest([ping, echo, profile]))
+    ).toBe(
+      serializeCommandManifest(createCommandManifest([profile, echo, ping]))
+    );
+  });
+});
+
+describe('serializeCommandManifest', () => {
+  it('sorts object keys but keeps arrays in order', () => {
+    const json = serializeCommandManifest(
+      createCommandManifest([
+        {
+          name: 'pick',
+          description: 'Picks one',
+          options: [
+            { type: 3, name: 'b', description: 'B' },
+            { type: 3, name: 'a', description: 'A' },
+          ],
+        },
+      ])
+    );
+    const parsed = JSON.parse(json);
+    expect(Object.keys(parsed)).toEqual(['global', 'guilds', 'version']);
+    expect(Object.keys(parsed.global[0])).toEqual([
+      'description',
+      'name',
+      'options',
+    ]);
+    expect(
+      parsed.global[0].options.map((option: { name: string }) => option.name)
+    ).toEqual(['b', 'a']);
+    expect(json.endsWith('}\n')).toBe(true);
+  });
+});
+
+describe('diffCommandManifests', () => {
+  it('finds no drift when nothing changed', () => {
+    const saved = JSON.parse(
+      serializeCommandManifest(createCommandManifest([ping], { '1': [echo] }))
+    );
+    const diff = diffCommandManifests(
+      saved,
+      createCommandManifest([ping], { '1': [echo] })
+    );
+    expect(manifestHasChanges(diff)).toBe(false);
+  });
+
+  it('reports drift in global and guild commands', () => {
+    const diff = diffCommandManifests(
+      createCommandManifest([ping], { '1': [echo] }),
+      createCommandManifest([{ ...ping, description: 'Pong' }, profile], {
+        '2': [echo],
+      })
+    );
+    expect(manifestHasChanges(diff)).toBe(true);
+    expect(formatCommandManifestDiff(diff)).toBe(
+      [
+        'Global commands:',
+        '+ Profile (user)',
+        '~ ping (chat): description',
+        '',
+        'Guild 1 commands:',
+        '- echo (chat)',
+        '',
+        'Guild 2 commands:',
+        '+ echo (chat)',
+      ].join('\n')
+    );
+  });
+});
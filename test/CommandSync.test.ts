@@ -0,0 +1,262 @@
+import {
+  APIApplicationCommand,
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  ApplicationIntegrationType,
+  RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import {
+  deleteCommands,
+  diffCommands,
+  formatCommandDiff,
+  hasChanges,
+  listCommands,
+  syncCommands,
+} from '../src';
+
+const mockGet = jest.fn();
+const mockPut = jest.fn();
+const mockDelete = jest.fn();
+
+jest.mock('@discordjs/rest', () => ({
+  REST: jest.fn().mockImplementation(() => ({
+    setToken() {
+      return this;
+    },
+    get: mockGet,
+    put: mockPut,
+    delete: mockDelete,
+  })),
+}));
+
+const ping: RESTPostAPIApplicationCommandsJSONBody = {
+  name: 'ping',
+  description: 'Checks if the bot is alive',
+  options: [
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'message',
+      description: 'What to say back',
+    },
+  ],
+};
+
+// What Discord sends back for `ping`, with every default filled in
+const registeredPing: APIApplicationCommand = {
+  id: '1',
+  application_id: '2',
+  version: '3',
+  type: ApplicationCommandType.ChatInput,
+  name: 'ping',
+  name_localizations: {},
+  description: 'Checks if the bot is alive',
+  description_localizations: null,
+  default_member_permissions: null,
+  dm_permission: true,
+  nsfw: false,
+  integration_types: [ApplicationIntegrationType.GuildInstall],
+  options: [
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'message',
+      description: 'What to say back',
+      required: false,
+    },
+  ],
+};
+
+describe('diffCommands', () => {
+  it('ignores the defaults Discord fills in', () => {
+    const diff = diffCommands([registeredPing], [ping]);
+    expect(diff.unchanged).toEqual([
+      { name: 'ping', type: ApplicationCommandType.ChatInput },
+    ]);
+    expect(hasChanges(diff)).toBe(false);
+    expect(formatCommandDiff(diff)).toBe('No changes');
+  });
+
+  it('finds added and removed commands', () => {
+    const diff = diffCommands(
+      [registeredPing],
+      [{ type: ApplicationCommandType.User, name: 'Profile' }]
+    );
+    expect(diff.added).toEqual([
+      { name: 'Profile', type: ApplicationCommandType.User },
+    ]);
+    expect(diff.removed).toEqual([
+      { name: 'ping', type: ApplicationCommandType.ChatInput },
+    ]);
+    expect(formatCommandDiff(diff)).toBe('+ Profile (user)\n- ping (chat)');
+  });
+
+  it('keeps commands with the same name but different types apart', () => {
+    const diff = diffCommands(
+      [{ ...registeredPing, name: 'Profile' }],
+      [{ type: ApplicationCommandType.User, name: 'Profile' }]
+    );
+    expect(diff.added).toHaveLength(1);
+    expect(diff.removed).toHaveLength(1);
+  });
+
+  it('reports the path of each change', () => {
+    const diff = diffCommands(
+      [registeredPing],
+      [
+        {
+          ...ping,
+          description: 'Pong',
+          options: [
+            {
+              type: ApplicationCommandOptionType.String,
+              name: 'message',
+              description: 'What to say back',
+              required: true,
+            },
+          ],
+        },
+      ]
+    );
+    expect(diff.changed).toEqual([
+      {
+        name: 'ping',
+        type: ApplicationCommandType.ChatInput,
+        changes: ['description', 'options[message].required'],
+      },
+    ]);
+    expect(formatCommandDiff(diff)).toBe(
+      '~ ping (chat): description, options[message].required'
+    );
+  });
+
+  it("doesn't care about the order of contexts and integration types", () => {
+    const diff = diffCommands(
+      [
+        {
+          ...registeredPing,
+          contexts: [2, 0],
+          integration_types: [
+            ApplicationIntegrationType.UserInstall,
+            ApplicationIntegrationType.GuildInstall,
+          ],
+        },
+      ],
+      [
+        {
+          ...ping,
+          contexts: [0, 2],
+          integration_types: [
+            ApplicationIntegrationType.GuildInstall,
+            ApplicationIntegrationType.UserInstall,
+          ],
+        },
+      ]
+    );
+    expect(hasChanges(diff)).toBe(false);
+  });
+});
+
+describe('syncCommands', () => {
+  const localizedPing: RESTPostAPIApplicationCommandsJSONBody = {
+    ...ping,
+    name_localizations: { fr: 'ping' },
+    description_localizations: { fr: 'Vérifie si le bot est en ligne' },
+  };
+
+  beforeEach(() => {
+    mockGet.mockReset();
+    mockPut.mockReset();
+  });
+
+  it('asks Discord for the localizations', async () => {
+    mockGet.mockResolvedValue([]);
+    await listCommands({ token: 'token', applicationId: '2' });
+    const [route, options] = mockGet.mock.calls[0];
+    expect(route).toBe('/applications/2/commands');
+    expect(options.query.get('with_localizations')).toBe('true');
+  });
+
+  it("doesn't overwrite localized commands that didn't change", async () => {
+    mockGet.mockResolvedValue([
+      {
+        ...registeredPing,
+        name_localizations: { fr: 'ping' },
+        description_localizations: { fr: 'Vérifie si le bot est en ligne' },
+      },
+    ]);
+    const diff = await syncCommands({
+      token: 'token',
+      applicationId: '2',
+      commands: [localizedPing],
+    });
+    expect(mockGet.mock.calls[0][1].query.get('with_localizations')).toBe(
+      'true'
+    );
+    expect(diff.unchanged).toEqual([
+      { name: 'ping', type: ApplicationCommandType.ChatInput },
+    ]);
+    expect(mockPut).not.toHaveBeenCalled();
+  });
+
+  it('overwrites the commands when something changed', async () => {
+    mockGet.mockResolvedValue([registeredPing]);
+    const diff = await syncCommands({
+      token: 'token',
+      applicationId: '2',
+      guildId: '4',
+      commands: [localizedPing],
+    });
+    expect(diff.changed[0].changes).toEqual([
+      'name_localizations',
+      'description_localizations',
+    ]);
+    expect(mockPut).toHaveBeenCalledWith('/applications/2/guilds/4/commands', {
+      body: [localizedPing],
+    });
+  });
+
+  it("doesn't write anything on a dry run", async () => {
+    mockGet.mockResolvedValue([]);
+    const diff = await syncCommands({
+      token: 'token',
+      applicationId: '2',
+      commands: [localizedPing],
+      dryRun: true,
+    });
+    expect(diff.added).toHaveLength(1);
+    expect(mockPut).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleteCommands', () => {
+  const pingUser: APIApplicationCommand = {
+    ...registeredPing,
+    id: '5',
+    type: ApplicationCommandType.User,
+    description: '',
+    options: undefined,
+  };
+
+  beforeEach(() => {
+    mockGet.mockReset().mockResolvedValue([registeredPing, pingUser]);
+    mockDelete.mockReset();
+  });
+
+  it('only deletes commands of the given type', async () => {
+    const deleted = await deleteCommands({
+      token: 'token',
+      applicationId: '2',
+      names: ['ping'],
+      type: ApplicationCommandType.User,
+    });
+    expect(deleted).toEqual([pingUser]);
+    expect(mockDelete).toHaveBeenCalledTimes(1);
+    expect(mockDelete).toHaveBeenCalledWith('/applications/2/commands/5');
+  });
+
+  it("doesn't guess which type to delete", async () => {
+    await expect(
+      deleteCommands({ token: 'token', applicationId: '2', names: ['ping'] })
+    ).rejects.toThrow('More than one type of command is named ping');
+    expect(mockDelete).not.toHaveBeenCalled();
+  });
+});
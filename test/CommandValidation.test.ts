@@ -0,0 +1,203 @@
+import { ApplicationCommandOptionType } from 'discord.js';
+import {
+  assertNoDefinitionIssues,
+  collectDefinitionIssues,
+  CommandDefinitionError,
+  getCommandCharacterCount,
+  validateChatCommandInfo,
+  validateCommandGroupInfo,
+  validateCommandSize,
+  validateContextMenuInfo,
+} from '../src';
+
+describe('validateChatCommandInfo', () => {
+  it('finds nothing wrong with a valid command', () => {
+    expect(
+      validateChatCommandInfo({
+        name: 'ping',
+        description: 'Checks if the bot is alive',
+        options: [
+          {
+            type: ApplicationCommandOptionType.String,
+            name: 'message',
+            description: 'What to say back',
+            required: true,
+          },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it('reports every problem at once', () => {
+    expect(
+      validateChatCommandInfo({
+        name: 'Ping',
+        nameLocalizations: { fr: 'a'.repeat(33) },
+        description: '',
+        options: [
+          {
+            type: ApplicationCommandOptionType.String,
+            name: 'color',
+            description: 'A color',
+            choices: [{ name: '', value: 'x'.repeat(101) }],
+          },
+          {
+            type: ApplicationCommandOptionType.String,
+            name: 'color',
+            description: 'The same name',
+            required: true,
+          },
+        ],
+      })
+    ).toEqual([
+      { command: 'Ping', message: expect.stringContaining('"Ping"') },
+      { command: 'Ping', message: expect.stringContaining('"aaa') },
+      { command: 'Ping', message: expect.stringContaining('Description') },
+      {
+        command: 'Ping',
+        option: 'color',
+        message: expect.stringContaining('Choice name ""'),
+      },
+      {
+        command: 'Ping',
+        option: 'color',
+        message: expect.stringContaining('Choice value'),
+      },
+      {
+        command: 'Ping',
+        option: 'color',
+        message: 'Option names must be unique',
+      },
+      {
+        command: 'Ping',
+        option: 'color',
+        message: 'Required options must come before optional options',
+      },
+    ]);
+  });
+
+  it("doesn't allow defaults on required options", () => {
+    expect(
+      validateChatCommandInfo({
+        name: 'roll',
+        description: 'Rolls dice',
+        options: [
+          {
+            type: ApplicationCommandOptionType.Integer,
+            name: 'sides',
+            description: 'How many sides the dice have',
+            required: true,
+            default: 6,
+          },
+        ],
+      })
+    ).toEqual([
+      {
+        command: 'roll',
+        option: 'sides',
+        message: "Required options can't have a default value",
+      },
+    ]);
+  });
+
+  it('limits the number of options and choices', () => {
+    const choices = Array.from({ length: 26 }, (_, i) => ({
+      name: `${i}`,
+      value: i,
+    }));
+    const issues = validateChatCommandInfo({
+      name: 'pick',
+      description: 'Picks a number',
+      options: Array.from({ length: 26 }, (_, i) => ({
+        type: ApplicationCommandOptionType.Integer as const,
+        name: `number${i}`,
+        description: 'A number',
+        choices: i === 0 ? choices : undefined,
+      })),
+    });
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Commands can have at most 25 options, found 26',
+      'Options can have at most 25 choices, found 26',
+    ]);
+  });
+});
+
+describe('validateCommandGroupInfo', () => {
+  it('limits the number of subcommands', () => {
+    expect(
+      validateCommandGroupInfo('config', { description: 'Settings' }, 26)
+    ).toEqual([
+      {
+        command: 'config',
+        message:
+          'Commands can have at most 25 subcommands and groups, found 26',
+      },
+    ]);
+  });
+});
+
+describe('validateContextMenuInfo', () => {
+  it('allows spaces and capitals but limits the length', () => {
+    expect(validateContextMenuInfo({ name: 'View Profile' })).toEqual([]);
+    expect(validateContextMenuInfo({ name: 'a'.repeat(33) })).toHaveLength(1);
+  });
+});
+
+describe('validateCommandSize', () => {
+  it('counts only the longest localization of each field', () => {
+    expect(
+      getCommandCharacterCount({
+        name: 'ping',
+        name_localizations: { fr: 'pingpong' },
+        description: 'Pong',
+        options: [
+          {
+            name: 'size',
+            description: 'Size',
+            choices: [{ name: 'Big', value: 'big' }],
+          },
+        ],
+      })
+    ).toBe(8 + 4 + 4 + 4 + 3 + 3);
+  });
+
+  it('reports commands over the limit', () => {
+    expect(
+      validateCommandSize({
+        name: 'ping',
+        description: 'x'.repeat(8000),
+      })
+    ).toEqual([
+      {
+        command: 'ping',
+        message: expect.stringContaining('found 8004'),
+      },
+    ]);
+  });
+});
+
+describe('collectDefinitionIssues', () => {
+  it('collects the issues of every file into one error', () => {
+    const issues: Parameters<typeof assertNoDefinitionIssues>[0] = [];
+    for (const file of ['ping.ts', 'echo.ts']) {
+      collectDefinitionIssues(file, issues, () =>
+        assertNoDefinitionIssues([{ command: file, message: 'Invalid' }])
+      );
+    }
+    expect(() => assertNoDefinitionIssues(issues)).toThrow(
+      new CommandDefinitionError([
+        { file: 'ping.ts', command: 'ping.ts', message: 'Invalid' },
+        { file: 'echo.ts', command: 'echo.ts', message: 'Invalid' },
+      ])
+    );
+    expect(issues).toHaveLength(2);
+  });
+
+  it("doesn't swallow other errors", () => {
+    expect(() =>
+      collectDefinitionIssues('ping.ts', [], () => {
+        throw new Error('Syntax error');
+      })
+    ).toThrow('Syntax error');
+  });
+});
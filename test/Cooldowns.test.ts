@@ -0,0 +1,42 @@
+import { MemoryCooldownStore } from '../src';
+
+describe('MemoryCooldownStore', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts a cooldown and reports the time left', () => {
+    const store = new MemoryCooldownStore();
+    expect(store.acquire('chat:ping:user:1', 1000)).toBe(0);
+    jest.advanceTimersByTime(400);
+    expect(store.acquire('chat:ping:user:1', 1000)).toBe(600);
+  });
+
+  it('keeps keys apart', () => {
+    const store = new MemoryCooldownStore();
+    expect(store.acquire('chat:ping:user:1', 1000)).toBe(0);
+    expect(store.acquire('chat:ping:user:2', 1000)).toBe(0);
+  });
+
+  it('starts a new cooldown once the old one has ended', () => {
+    const store = new MemoryCooldownStore();
+    store.acquire('chat:ping:global', 1000);
+    jest.advanceTimersByTime(1000);
+    expect(store.acquire('chat:ping:global', 500)).toBe(0);
+    jest.advanceTimersByTime(100);
+    expect(store.acquire('chat:ping:global', 500)).toBe(400);
+  });
+
+  it("doesn't extend a running cooldown", () => {
+    const store = new MemoryCooldownStore();
+    store.acquire('chat:ping:global', 1000);
+    jest.advanceTimersByTime(900);
+    store.acquire('chat:ping:global', 1000);
+    jest.advanceTimersByTime(100);
+    expect(store.acquire('chat:ping:global', 1000)).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import type { AutocompleteInteraction } from 'discord.js';
+import { enumOption, ValidationError } from '../src';
+
+enum Size {
+  Small,
+  Medium,
+  Large,
+}
+
+const Color = { Red: 'r', Green: 'g' } as const;
+
+describe('enumOption', () => {
+  it('uses the keys of numeric enums as choices', () => {
+    const option = enumOption(Size, { name: 'size', description: 'How big' });
+    expect(option).toMatchObject({
+      type: 'STRING',
+      name: 'size',
+      choices: [
+        { name: 'Small', value: 'Small' },
+        { name: 'Medium', value: 'Medium' },
+        { name: 'Large', value: 'Large' },
+      ],
+    });
+    expect(option.transformer('Large')).toBe(Size.Large);
+  });
+
+  it('uses the labels for the choice names', () => {
+    const option = enumOption(Color, {
+      name: 'color',
+      description: 'Which color',
+      labels: {
+        Red: { name: 'Red', nameLocalizations: { fr: 'Rouge' } },
+        Green: 'Grass green',
+      },
+    });
+    expect('choices' in option && option.choices).toEqual([
+      { name: 'Red', nameLocalizations: { fr: 'Rouge' }, value: 'Red' },
+      { name: 'Grass green', value: 'Green' },
+    ]);
+  });
+
+  it('accepts keys and labels in any case', () => {
+    const option = enumOption(Color, {
+      name: 'color',
+      description: 'Which color',
+      labels: { Red: { name: 'Red', nameLocalizations: { fr: 'Rouge' } } },
+    });
+    expect(option.transformer('green')).toBe('g');
+    expect(option.transformer('ROUGE')).toBe('r');
+    expect(() => option.transformer('blue')).toThrow(ValidationError);
+  });
+
+  it('throws for empty enums', () => {
+    expect(() =>
+      enumOption({}, { name: 'empty', description: 'Nothing' })
+    ).toThrow("The option empty doesn't have any entries");
+  });
+
+  describe('with more entries than Discord allows as choices', () => {
+    const values = Object.fromEntries(
+      Array.from({ length: 30 }, (_, i) => [`Item${i}`, i])
+    );
+    const option = enumOption(values, {
+      name: 'item',
+      description: 'Which item',
+      labels: {
+        Item1: { name: 'Zebra', nameLocalizations: { fr: 'Alpha' } },
+        Item2: { name: 'Alpha two', nameLocalizations: { fr: 'Alpha deux' } },
+      },
+    });
+    const interaction = (locale: string) =>
+      ({ locale } as unknown as AutocompleteInteraction);
+
+    it('uses autocomplete instead', () => {
+      expect(option).toMatchObject({ autocomplete: true });
+      expect('choices' in option).toBe(false);
+    });
+
+    it("ranks matches by the user's language", async () => {
+      if (!('onAutocomplete' in option))
+        throw new Error('Expected autocomplete');
+      const choices = await option.onAutocomplete(interaction('fr'), 'alpha');
+      expect(choices).toEqual([
+        { name: 'Zebra', nameLocalizations: { fr: 'Alpha' }, value: 'Item1' },
+        {
+          name: 'Alpha two',
+          nameLocalizations: { fr: 'Alpha deux' },
+          value: 'Item2',
+        },
+      ]);
+    });
+
+    it('shows the first entries for an empty query', async () => {
+      if (!('onAutocomplete' in option))
+        throw new Error('Expected autocomplete');
+      const choices = await option.onAutocomplete(interaction('en-US'), '');
+      expect(choices).toHaveLength(25);
+      expect(choices[0]).toEqual({ name: 'Item0', value: 'Item0' });
+    });
+  });
+});
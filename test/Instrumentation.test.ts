@@ -0,0 +1,82 @@
+import { instrument, MemoryInstrumentation } from '../src';
+
+describe('MemoryInstrumentation', () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  // Runs an operation that takes the given number of milliseconds
+  function run(
+    metrics: MemoryInstrumentation,
+    labels: Record<string, string>,
+    ms: number,
+    fail = false
+  ) {
+    return instrument(metrics, 'command', labels, () => {
+      now += ms;
+      if (fail) throw new Error('Failed');
+    }).catch(() => undefined);
+  }
+
+  it('exports counts and durations in the Prometheus text format', async () => {
+    const metrics = new MemoryInstrumentation({ buckets: [0.1, 0.01] });
+    await run(metrics, { command: 'ping' }, 5);
+    await run(metrics, { command: 'ping' }, 50, true);
+    await run(metrics, { command: 'say "hi"\\' }, 500);
+    expect(metrics.toPrometheus()).toBe(
+      [
+        '# HELP slashasaurus_operations_total The number of operations that finished.',
+        '# TYPE slashasaurus_operations_total counter',
+        'slashasaurus_operations_total{operation="command",command="ping",status="success"} 1',
+        'slashasaurus_operations_total{operation="command",command="ping",status="error"} 1',
+        'slashasaurus_operations_total{operation="command",command="say \\"hi\\"\\\\",status="success"} 1',
+        'slashasaurus_operations_total{operation="command",command="say \\"hi\\"\\\\",status="error"} 0',
+        '# HELP slashasaurus_operation_duration_seconds How long operations took.',
+        '# TYPE slashasaurus_operation_duration_seconds histogram',
+        'slashasaurus_operation_duration_seconds_bucket{operation="command",command="ping",le="0.01"} 1',
+        'slashasaurus_operation_duration_seconds_bucket{operation="command",command="ping",le="0.1"} 2',
+        'slashasaurus_operation_duration_seconds_bucket{operation="command",command="ping",le="+Inf"} 2',
+        'slashasaurus_operation_duration_seconds_sum{operation="command",command="ping"} 0.055',
+        'slashasaurus_operation_duration_seconds_count{operation="command",command="ping"} 2',
+        'slashasaurus_operation_duration_seconds_bucket{operation="command",command="say \\"hi\\"\\\\",le="0.01"} 0',
+        'slashasaurus_operation_duration_seconds_bucket{operation="command",command="say \\"hi\\"\\\\",le="0.1"} 0',
+        'slashasaurus_operation_duration_seconds_bucket{operation="command",command="say \\"hi\\"\\\\",le="+Inf"} 1',
+        'slashasaurus_operation_duration_seconds_sum{operation="command",command="say \\"hi\\"\\\\"} 0.5',
+        'slashasaurus_operation_duration_seconds_count{operation="command",command="say \\"hi\\"\\\\"} 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('uses the prefix and forgets everything on reset', async () => {
+    const metrics = new MemoryInstrumentation({ prefix: 'bot_' });
+    await run(metrics, {}, 1);
+    expect(metrics.toPrometheus()).toContain(
+      'bot_operations_total{operation="command",status="success"} 1'
+    );
+    metrics.reset();
+    expect(metrics.toPrometheus()).not.toContain('operation="command"');
+  });
+});
+
+describe('instrument', () => {
+  it('reports failures and rethrows', async () => {
+    const end = jest.fn();
+    const error = new Error('Failed');
+    await expect(
+      instrument({ start: () => end }, 'modal', { modal: 'report' }, () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+    expect(end).toHaveBeenCalledWith(true, error);
+  });
+
+  it('just runs the function without instrumentation', async () => {
+    expect(await instrument(undefined, 'modal', {}, () => 5)).toBe(5);
+  });
+});
@@ -0,0 +1,145 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import {
+  CommandRunFunction,
+  Middleware,
+  SlashasaurusClient,
+  SlashCommand,
+} from '../src';
+import { Pipeline } from '../src/MiddlewarePipeline';
+
+type Account = { id: string; balance: number };
+
+const auth: Middleware<CommandRunFunction<[]>, { account: Account }> = async (
+  interaction,
+  _client,
+  _options,
+  next,
+  ctx
+) => {
+  ctx.account = { id: interaction.user.id, balance: 5 };
+  await next();
+};
+
+const interaction = {
+  user: { id: '1' },
+} as unknown as ChatInputCommandInteraction;
+const client = {} as SlashasaurusClient;
+
+describe('Pipeline', () => {
+  it('runs the middleware in the order they were added around the handler', async () => {
+    const calls: string[] = [];
+    const pipeline = new Pipeline<CommandRunFunction<[]>>();
+    pipeline.push(async (_interaction, _client, _options, next) => {
+      calls.push('outer before');
+      await next();
+      calls.push('outer after');
+    });
+    pipeline.push(async (_interaction, _client, _options, next) => {
+      calls.push('inner before');
+      await next();
+      calls.push('inner after');
+    });
+    await pipeline.execute(
+      () => {
+        calls.push('handler');
+      },
+      interaction,
+      client,
+      {}
+    );
+    expect(calls).toEqual([
+      'outer before',
+      'inner before',
+      'handler',
+      'inner after',
+      'outer after',
+    ]);
+  });
+
+  it('passes the same context to every middleware and the handler', async () => {
+    const pipeline = new Pipeline<
+      CommandRunFunction<[], { account: Account }>
+    >();
+    pipeline.push(auth);
+    const seen: unknown[] = [];
+    pipeline.push(async (_interaction, _client, _options, next, ctx) => {
+      seen.push(ctx.account);
+      await next();
+    });
+    await pipeline.execute(
+      (_interaction, _client, _options, ctx) => {
+        seen.push(ctx.account);
+      },
+      interaction,
+      client,
+      {}
+    );
+    expect(seen).toEqual([
+      { id: '1', balance: 5 },
+      { id: '1', balance: 5 },
+    ]);
+    expect(seen[0]).toBe(seen[1]);
+  });
+
+  it("stops when a middleware doesn't call next", async () => {
+    const pipeline = new Pipeline<CommandRunFunction<[]>>();
+    pipeline.push(() => undefined);
+    const handler = jest.fn();
+    await pipeline.execute(handler, interaction, client, {});
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('throws when next is called twice', async () => {
+    const pipeline = new Pipeline<CommandRunFunction<[]>>();
+    pipeline.push(async (_interaction, _client, _options, next) => {
+      await next();
+      await next();
+    });
+    await expect(
+      pipeline.execute(() => undefined, interaction, client, {})
+    ).rejects.toThrow('next() can only be called once per middleware');
+  });
+});
+
+describe('SlashCommand middleware', () => {
+  it("types the run handler's context from the command's middleware", async () => {
+    let balance = 0;
+    const command = new SlashCommand(
+      {
+        name: 'balance',
+        description: 'Shows your balance',
+        options: [],
+        middleware: [auth],
+      },
+      {
+        run: (_interaction, _client, _options, ctx) => {
+          // No undefined check needed, auth sets the account
+          balance = ctx.account.balance;
+        },
+      }
+    );
+
+    const pipeline = new Pipeline<CommandRunFunction<[]>>();
+    command.commandInfo.middleware?.forEach((fn) => pipeline.push(fn));
+    await pipeline.execute(
+      (interaction, client, options, ctx) =>
+        command.run(interaction, client, options, ctx),
+      interaction,
+      client,
+      {}
+    );
+    expect(balance).toBe(5);
+  });
+
+  it("doesn't add anything for commands without middleware", () => {
+    new SlashCommand(
+      { name: 'ping', description: 'Pong', options: [] },
+      {
+        run: (_interaction, _client, _options, ctx) => {
+          // @ts-expect-error nothing added an account
+          return ctx.account;
+        },
+      }
+    );
+  });
+});
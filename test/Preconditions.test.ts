@@ -0,0 +1,103 @@
+import type { CommandInteraction } from 'discord.js';
+import {
+  allOf,
+  anyOf,
+  negate,
+  Precondition,
+  PreconditionFailure,
+  SlashasaurusClient,
+} from '../src';
+
+const interaction = {} as CommandInteraction;
+const client = {} as SlashasaurusClient;
+
+function check(name: string, passes: boolean, calls: string[]): Precondition {
+  return async () => {
+    calls.push(name);
+    return passes ? undefined : { reason: 'custom', message: name };
+  };
+}
+
+describe('allOf', () => {
+  it('stops at the first failure', async () => {
+    const calls: string[] = [];
+    const precondition = allOf(
+      check('a', true, calls),
+      check('b', false, calls),
+      check('c', false, calls)
+    );
+    expect(await precondition(interaction, client)).toEqual({
+      reason: 'custom',
+      message: 'b',
+    });
+    expect(calls).toEqual(['a', 'b']);
+  });
+
+  it('passes when every precondition passes', async () => {
+    const calls: string[] = [];
+    expect(
+      await allOf(check('a', true, calls), check('b', true, calls))(
+        interaction,
+        client
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe('anyOf', () => {
+  it('stops at the first precondition that passes', async () => {
+    const calls: string[] = [];
+    const precondition = anyOf(
+      check('a', false, calls),
+      check('b', true, calls),
+      check('c', true, calls)
+    );
+    expect(await precondition(interaction, client)).toBeUndefined();
+    expect(calls).toEqual(['a', 'b']);
+  });
+
+  it('returns every failure when none pass', async () => {
+    const calls: string[] = [];
+    expect(
+      await anyOf(check('a', false, calls), check('b', false, calls))(
+        interaction,
+        client
+      )
+    ).toEqual({
+      reason: 'noneMatched',
+      failures: [
+        { reason: 'custom', message: 'a' },
+        { reason: 'custom', message: 'b' },
+      ],
+    });
+  });
+});
+
+describe('negate', () => {
+  it('flips the result', async () => {
+    const calls: string[] = [];
+    expect(
+      await negate(check('a', false, calls))(interaction, client)
+    ).toBeUndefined();
+    expect(await negate(check('a', true, calls))(interaction, client)).toEqual({
+      reason: 'negated',
+    });
+  });
+
+  it('reports the given failure', async () => {
+    const failure: PreconditionFailure = { reason: 'custom', message: 'No' };
+    expect(
+      await negate(check('a', true, []), failure)(interaction, client)
+    ).toBe(failure);
+  });
+
+  it('composes with the other combinators', async () => {
+    const calls: string[] = [];
+    const precondition = anyOf(
+      negate(check('a', true, calls)),
+      allOf(check('b', true, calls), negate(check('c', false, calls)))
+    );
+    expect(await precondition(interaction, client)).toBeUndefined();
+    expect(calls).toEqual(['a', 'b', 'c']);
+  });
+});
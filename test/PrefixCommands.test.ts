@@ -0,0 +1,163 @@
+import {
+  ApplicationCommandOptionType,
+  Message,
+  MessageFlags,
+} from 'discord.js';
+import {
+  parsePrefixArguments,
+  PrefixCommandInteraction,
+  PrefixCommandOptionResolver,
+  SlashasaurusClient,
+} from '../src';
+
+function fakeMessage() {
+  return {
+    attachments: new Map(),
+    inGuild: () => true,
+    author: { send: jest.fn(async () => ({ id: 'dm' })) },
+    reply: jest.fn(async () => ({ id: 'reply' })),
+  };
+}
+
+function createInteraction(message: ReturnType<typeof fakeMessage>) {
+  return new PrefixCommandInteraction(
+    {} as SlashasaurusClient,
+    message as unknown as Message,
+    'ping',
+    null,
+    new PrefixCommandOptionResolver(
+      message as unknown as Message,
+      [],
+      null,
+      null
+    )
+  );
+}
+
+describe('parsePrefixArguments', () => {
+  it('splits on whitespace', () => {
+    expect(parsePrefixArguments('ban  @user\tspam')).toEqual([
+      { value: 'ban' },
+      { value: '@user' },
+      { value: 'spam' },
+    ]);
+  });
+
+  it('keeps quoted text together', () => {
+    expect(parsePrefixArguments('say "hello there" world')).toEqual([
+      { value: 'say' },
+      { value: 'hello there' },
+      { value: 'world' },
+    ]);
+  });
+
+  it('unescapes quotes and backslashes', () => {
+    expect(parsePrefixArguments('"a \\"b\\" c\\\\"')).toEqual([
+      { value: 'a "b" c\\' },
+    ]);
+  });
+
+  it('keeps empty quoted arguments', () => {
+    expect(parsePrefixArguments('a "" b')).toEqual([
+      { value: 'a' },
+      { value: '' },
+      { value: 'b' },
+    ]);
+  });
+
+  it('reads named arguments', () => {
+    expect(parsePrefixArguments('ban Reason:"too much spam"')).toEqual([
+      { value: 'ban' },
+      { name: 'Reason', value: 'too much spam' },
+    ]);
+  });
+
+  it("doesn't treat quoted text or later colons as names", () => {
+    expect(parsePrefixArguments('"a:b" https://example.com note:a:b')).toEqual([
+      { value: 'a:b' },
+      { name: 'https', value: '//example.com' },
+      { name: 'note', value: 'a:b' },
+    ]);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(parsePrefixArguments('   ')).toEqual([]);
+  });
+});
+
+describe('PrefixCommandOptionResolver', () => {
+  const options = [
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'url',
+      description: 'A url',
+    },
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'note',
+      description: 'A note',
+    },
+  ] as const;
+
+  it('passes named arguments to the option with that name', async () => {
+    const message = fakeMessage() as unknown as Message;
+    const resolver = new PrefixCommandOptionResolver(
+      message,
+      parsePrefixArguments('Note:hi https://example.com'),
+      null,
+      null
+    );
+    expect(await resolver.resolve(options)).toEqual([]);
+    expect(resolver.getString('url')).toBe('https://example.com');
+    expect(resolver.getString('note')).toBe('hi');
+  });
+
+  it("keeps arguments that don't name an option as they were written", async () => {
+    const message = fakeMessage() as unknown as Message;
+    const resolver = new PrefixCommandOptionResolver(
+      message,
+      parsePrefixArguments('HTTPS://Example.com/A:b'),
+      null,
+      null
+    );
+    expect(await resolver.resolve(options)).toEqual([]);
+    expect(resolver.getString('url')).toBe('HTTPS://Example.com/A:b');
+  });
+});
+
+describe('PrefixCommandInteraction', () => {
+  it('keeps message flags but drops the ephemeral flag', async () => {
+    const message = fakeMessage();
+    await createInteraction(message).reply({
+      content: 'Hi',
+      flags: MessageFlags.SuppressEmbeds,
+    });
+    expect(message.reply).toHaveBeenCalledWith({
+      content: 'Hi',
+      flags: MessageFlags.SuppressEmbeds,
+    });
+  });
+
+  it('sends ephemeral replies to DMs', async () => {
+    const message = fakeMessage();
+    await createInteraction(message).reply({
+      content: 'Secret',
+      flags: MessageFlags.Ephemeral,
+    });
+    expect(message.author.send).toHaveBeenCalledWith({
+      content: 'Secret',
+      flags: 0,
+    });
+    expect(message.reply).not.toHaveBeenCalled();
+  });
+
+  it('replies in the channel when DMs are closed', async () => {
+    const message = fakeMessage();
+    message.author.send.mockRejectedValueOnce(new Error('Cannot send'));
+    await createInteraction(message).reply({
+      content: 'Secret',
+      ephemeral: true,
+    });
+    expect(message.reply).toHaveBeenCalledWith({ content: 'Secret' });
+  });
+});
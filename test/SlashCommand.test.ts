@@ -0,0 +1,231 @@
+import {
+  ApplicationCommandOptionType,
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  CommandInteraction,
+  InteractionType,
+} from 'discord.js';
+import { SlashCommand, ValidationError } from '../src';
+
+// An interaction with the given option values, like Discord would send them
+function fakeInteraction(
+  values: Record<string, unknown>,
+  type = InteractionType.ApplicationCommand
+) {
+  const get = (name: string) => values[name] ?? null;
+  return {
+    type,
+    inGuild: () => false,
+    options: {
+      getString: get,
+      getInteger: get,
+      getNumber: get,
+      getBoolean: get,
+      getAttachment: get,
+    },
+  } as unknown as ChatInputCommandInteraction;
+}
+
+describe('SlashCommand', () => {
+  describe('validate', () => {
+    const command = new SlashCommand(
+      {
+        name: 'range',
+        description: 'Picks a range',
+        options: [
+          {
+            type: ApplicationCommandOptionType.Integer,
+            name: 'start',
+            description: 'The start',
+            required: true,
+          },
+          {
+            type: ApplicationCommandOptionType.Integer,
+            name: 'end',
+            description: 'The end',
+            required: true,
+            transformer: (value: number) => value * 10,
+          },
+        ],
+        validate: ({ start, end }) =>
+          end <= start * 10 ? { end: 'The end must be after the start' } : {},
+      },
+      { run: () => undefined }
+    );
+
+    it('gets the transformed options', async () => {
+      expect(
+        await command.validateAndTransformOptions(
+          fakeInteraction({ start: 1, end: 2 })
+        )
+      ).toEqual({ start: 1, end: 20 });
+    });
+
+    it('reports the problems it returns', async () => {
+      expect(
+        await command.validateAndTransformOptions(
+          fakeInteraction({ start: 2, end: 1 })
+        )
+      ).toEqual([
+        {
+          option: 'end',
+          value: 10,
+          message: 'The end must be after the start',
+        },
+      ]);
+    });
+
+    it("doesn't run if an option is invalid", async () => {
+      const validate = jest.fn();
+      const strict = new SlashCommand(
+        {
+          name: 'strict',
+          description: 'Checks the count',
+          options: [
+            {
+              type: ApplicationCommandOptionType.Integer,
+              name: 'count',
+              description: 'The count',
+              validator: (_interaction: CommandInteraction, value: number) =>
+                value < 0 ? 'Must not be negative' : true,
+            },
+          ],
+          validate,
+        },
+        { run: () => undefined }
+      );
+      expect(
+        await strict.validateAndTransformOptions(fakeInteraction({ count: -1 }))
+      ).toEqual([
+        { option: 'count', value: -1, message: 'Must not be negative' },
+      ]);
+      expect(validate).not.toHaveBeenCalled();
+    });
+
+    it("doesn't run for autocomplete", async () => {
+      expect(
+        await command.validateAndTransformOptions(
+          fakeInteraction(
+            { start: 2, end: 1 },
+            InteractionType.ApplicationCommandAutocomplete
+          ) as unknown as AutocompleteInteraction,
+          true,
+          false
+        )
+      ).toEqual({ start: 2, end: 10 });
+    });
+  });
+
+  describe('transformer', () => {
+    const transformer = jest.fn(async (id: string) => {
+      if (id !== '1') throw new ValidationError(`There's no item ${id}`);
+      return { id, name: 'Sword' };
+    });
+    const command = new SlashCommand(
+      {
+        name: 'item',
+        description: 'Shows an item',
+        options: [
+          {
+            type: ApplicationCommandOptionType.String,
+            name: 'id',
+            description: 'The item',
+            transformer,
+          },
+          {
+            type: ApplicationCommandOptionType.String,
+            name: 'other',
+            description: 'Another item',
+            transformer,
+          },
+        ],
+      },
+      { run: () => undefined }
+    );
+
+    it('reports a thrown ValidationError like a failed validator', async () => {
+      expect(
+        await command.validateAndTransformOptions(
+          fakeInteraction({ id: '2', other: '3' })
+        )
+      ).toEqual([
+        { option: 'id', value: '2', message: "There's no item 2" },
+        { option: 'other', value: '3', message: "There's no item 3" },
+      ]);
+    });
+
+    it('leaves the option empty for autocomplete', async () => {
+      expect(
+        await command.validateAndTransformOptions(
+          fakeInteraction(
+            { id: '2', other: '1' },
+            InteractionType.ApplicationCommandAutocomplete
+          ) as unknown as AutocompleteInteraction,
+          true,
+          false
+        )
+      ).toEqual({ id: null, other: { id: '1', name: 'Sword' } });
+    });
+
+    it('rethrows other errors', async () => {
+      transformer.mockRejectedValueOnce(new Error('Database is down'));
+      await expect(
+        command.validateAndTransformOptions(fakeInteraction({ id: '1' }))
+      ).rejects.toThrow('Database is down');
+    });
+  });
+
+  describe('default', () => {
+    const command = new SlashCommand(
+      {
+        name: 'roll',
+        description: 'Rolls dice',
+        options: [
+          {
+            type: ApplicationCommandOptionType.Integer,
+            name: 'sides',
+            description: 'How many sides the dice have',
+            default: 6,
+          },
+          {
+            type: ApplicationCommandOptionType.String,
+            name: 'label',
+            description: 'What the roll is for',
+            default: (
+              interaction: CommandInteraction | AutocompleteInteraction
+            ) => (interaction.inGuild() ? 'server' : 'dm'),
+            transformer: (value: string) => value.toUpperCase(),
+          },
+        ],
+      },
+      { run: () => undefined }
+    );
+
+    it('uses static and function defaults for missing options', async () => {
+      expect(
+        await command.validateAndTransformOptions(fakeInteraction({}))
+      ).toEqual({ sides: 6, label: 'DM' });
+    });
+
+    it('uses the given values over the defaults', async () => {
+      expect(
+        await command.validateAndTransformOptions(
+          fakeInteraction({ sides: 20, label: 'attack' })
+        )
+      ).toEqual({ sides: 20, label: 'ATTACK' });
+    });
+
+    it('fills in defaults for autocomplete', async () => {
+      expect(
+        await command.validateAndTransformOptions(
+          fakeInteraction(
+            {},
+            InteractionType.ApplicationCommandAutocomplete
+          ) as unknown as AutocompleteInteraction,
+          true,
+          true
+        )
+      ).toEqual({ sides: 6, label: 'dm' });
+    });
+  });
+});
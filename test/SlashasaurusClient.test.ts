@@ -0,0 +1,226 @@
+import {
+  ApplicationCommandType,
+  ChatInputCommandInteraction,
+  InteractionType,
+} from 'discord.js';
+import { join } from 'path';
+import {
+  CommandDefinitionError,
+  SlashasaurusClient,
+  SlashCommand,
+  UserCommand,
+} from '../src';
+import { calls, failing, wrap } from './fixtures/calls';
+
+function createClient() {
+  return new SlashasaurusClient({ intents: [] }, {});
+}
+
+function runCommand(
+  client: SlashasaurusClient,
+  commandName: string,
+  commandGuildId: string | null,
+  subcommand: string | null = null,
+  group: string | null = null
+) {
+  const interaction = {
+    type: InteractionType.ApplicationCommand,
+    commandName,
+    commandGuildId,
+    options: { _group: group, _subcommand: subcommand },
+    user: { id: '1' },
+    replied: false,
+    deferred: false,
+    reply: jest.fn(async () => undefined),
+  };
+  return (
+    client as unknown as {
+      handleCommand(interaction: ChatInputCommandInteraction): Promise<void>;
+    }
+  )
+    .handleCommand(interaction as unknown as ChatInputCommandInteraction)
+    .then(() => interaction.reply);
+}
+
+function chatCommand(name: string, description = 'A command') {
+  return new SlashCommand(
+    { name, description, options: [] },
+    { run: () => undefined }
+  );
+}
+
+describe('SlashasaurusClient', () => {
+  let client: SlashasaurusClient;
+
+  beforeEach(() => {
+    client = createClient();
+  });
+
+  afterEach(async () => {
+    await client.destroy();
+  });
+
+  describe('registerCommand', () => {
+    it("doesn't route a command that fails validation", () => {
+      expect(() =>
+        client.registerCommand(chatCommand('ping', 'x'.repeat(101)))
+      ).toThrow(CommandDefinitionError);
+      expect(client.getCommandManifest().global).toEqual([]);
+      // The name is still free
+      expect(() => client.registerCommand(chatCommand('ping'))).not.toThrow();
+    });
+
+    it("doesn't route any subcommand of a group that fails validation", () => {
+      expect(() =>
+        client.registerCommandGroup(
+          'config',
+          { description: 'x'.repeat(101) },
+          [chatCommand('show')]
+        )
+      ).toThrow(CommandDefinitionError);
+      expect(() =>
+        client.registerCommandGroup('config', { description: 'Settings' }, [
+          chatCommand('show'),
+        ])
+      ).not.toThrow();
+    });
+
+    it('throws on duplicate names', () => {
+      client.registerCommand(chatCommand('ping'));
+      expect(() => client.registerCommand(chatCommand('ping'))).toThrow(
+        'Duplicate command name ping'
+      );
+      const profile = new UserCommand({ name: 'Profile' }, () => undefined);
+      client.registerCommand(profile);
+      expect(() => client.registerCommand(profile)).toThrow(
+        'Duplicate user command name Profile'
+      );
+    });
+  });
+
+  describe('checkCommandManifest', () => {
+    it('reports commands registered since the manifest was saved', () => {
+      client.registerCommand(chatCommand('ping'));
+      const saved = client.getCommandManifest();
+      client.registerCommand(chatCommand('echo'), { guildId: '1' });
+      const diff = client.checkCommandManifest(saved);
+      expect(diff.global.added).toEqual([]);
+      expect(diff.guilds['1'].added).toEqual([
+        { name: 'echo', type: ApplicationCommandType.ChatInput },
+      ]);
+    });
+  });
+
+  describe('registerCommandsFrom', () => {
+    it("doesn't route anything from a folder that fails validation", async () => {
+      await expect(
+        client.registerCommandsFrom(
+          join(__dirname, 'fixtures', 'invalidCommands'),
+          false
+        )
+      ).rejects.toThrow(CommandDefinitionError);
+      expect(() => client.registerCommand(chatCommand('ping'))).not.toThrow();
+    });
+
+    it('routes every guild folder separately', async () => {
+      await client.registerCommandsFrom(
+        join(__dirname, 'fixtures', 'guildCommands'),
+        false
+      );
+      expect(await runCommand(client, 'config', null)).toHaveBeenCalledWith(
+        'global'
+      );
+      expect(await runCommand(client, 'config', '1')).toHaveBeenCalledWith(
+        'guild 1'
+      );
+      expect(
+        await runCommand(client, 'config', '2', 'show')
+      ).toHaveBeenCalledWith('guild 2');
+      // Guilds without their own commands don't run another guild's
+      await expect(runCommand(client, 'config', '3')).rejects.toThrow(
+        'Unregistered command config was run'
+      );
+    });
+  });
+
+  describe('preconditions', () => {
+    beforeEach(async () => {
+      calls.length = 0;
+      failing.clear();
+      await client.registerCommandsFrom(
+        join(__dirname, 'fixtures', 'nestedCommands'),
+        false
+      );
+    });
+
+    it('runs the preconditions of every _meta file above the command first', async () => {
+      expect(
+        await runCommand(client, 'admin', null, 'show', 'settings')
+      ).toHaveBeenCalledWith('shown');
+      expect(calls.slice(0, 3)).toEqual(['admin', 'settings', 'show']);
+      expect(calls).toContain('run');
+    });
+
+    it('stops at the first precondition that fails', async () => {
+      failing.add('settings');
+      const reply = await runCommand(client, 'admin', null, 'show', 'settings');
+      expect(reply).toHaveBeenCalledWith({
+        content: 'settings',
+        ephemeral: true,
+      });
+      expect(calls).toEqual(['admin', 'settings']);
+    });
+  });
+
+  describe('middleware', () => {
+    beforeEach(() => {
+      calls.length = 0;
+      failing.clear();
+    });
+
+    it('nests client, folder and command middleware around the command', async () => {
+      client.useCommandMiddleware(wrap('client'));
+      await client.registerCommandsFrom(
+        join(__dirname, 'fixtures', 'nestedCommands'),
+        false
+      );
+      await runCommand(client, 'admin', null, 'show', 'settings');
+      // After the preconditions
+      expect(calls.slice(3)).toEqual([
+        'client before',
+        'admin before',
+        'settings before',
+        'show before',
+        'run',
+        'show after',
+        'settings after',
+        'admin after',
+        'client after',
+      ]);
+    });
+  });
+
+  describe('runHandler', () => {
+    it('still calls onError when a commandError listener throws', async () => {
+      const onError = jest.fn();
+      const errorClient = new SlashasaurusClient({ intents: [] }, { onError });
+      errorClient.on('commandError', () => {
+        throw new Error('Listener failed');
+      });
+      const error = new Error('Command failed');
+      await (
+        errorClient as unknown as {
+          runHandler(
+            kind: string,
+            interaction: unknown,
+            handler: () => Promise<void>
+          ): Promise<void>;
+        }
+      ).runHandler('command', {}, async () => {
+        throw error;
+      });
+      expect(onError).toHaveBeenCalledWith(error, {}, 'command', errorClient);
+      await errorClient.destroy();
+    });
+  });
+});
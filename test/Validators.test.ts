@@ -0,0 +1,161 @@
+import type { CommandInteraction } from 'discord.js';
+import {
+  date,
+  duration,
+  emoji,
+  hexColor,
+  parseDuration,
+  regex,
+  snowflake,
+  url,
+  ValidationError,
+} from '../src';
+
+const interaction = { locale: 'en-US' } as CommandInteraction;
+const french = { locale: 'fr' } as CommandInteraction;
+
+describe('parseDuration', () => {
+  it.each([
+    ['1h30m', 90 * 60 * 1000],
+    ['2d 12h', 60 * 60 * 60 * 1000],
+    ['1W', 7 * 24 * 60 * 60 * 1000],
+    ['1.5s', 1500],
+    [' 10 m ', 10 * 60 * 1000],
+  ])('parses %j', (text, ms) => {
+    expect(parseDuration(text)).toBe(ms);
+  });
+
+  it.each(['', '10', 'h', '1y', '1h foo', '-1h'])('rejects %j', (text) => {
+    expect(parseDuration(text)).toBeUndefined();
+  });
+});
+
+describe('duration', () => {
+  const parser = duration({ min: 60 * 1000, max: 24 * 60 * 60 * 1000 });
+
+  it('turns the value into ms', () => {
+    expect(parser.validator(interaction, '1h')).toBe(true);
+    expect(parser.transformer('1h', interaction)).toBe(60 * 60 * 1000);
+  });
+
+  it('checks the limits', () => {
+    expect(parser.validator(interaction, '30s')).toBe(
+      'The duration must be at least 1m.'
+    );
+    expect(parser.validator(interaction, '2d')).toBe(
+      'The duration must be at most 1d.'
+    );
+  });
+
+  it('explains the format', () => {
+    expect(parser.validator(interaction, 'soon')).toBe(
+      "`soon` isn't a valid duration, e.g. 1h30m."
+    );
+  });
+});
+
+describe('custom messages', () => {
+  const parser = hexColor({
+    message: {
+      default: '{value} is not a color',
+      fr: "{value} n'est pas une couleur",
+    },
+  });
+
+  it("are used by the validator in the user's locale", () => {
+    expect(parser.validator(interaction, 'red')).toBe('red is not a color');
+    expect(parser.validator(french, 'red')).toBe("red n'est pas une couleur");
+  });
+
+  it('are used by the transformer', () => {
+    expect(() => parser.transformer('red', french)).toThrow(
+      new ValidationError("red n'est pas une couleur")
+    );
+  });
+
+  it('can be functions', () => {
+    const parser = snowflake({
+      message: (value, interaction) => `${interaction.locale}: ${value}`,
+    });
+    expect(parser.validator(interaction, 'abc')).toBe('en-US: abc');
+  });
+});
+
+describe('regex', () => {
+  it('resets global patterns between calls', () => {
+    const parser = regex(/^\d+$/g);
+    expect(parser.validator(interaction, '123')).toBe(true);
+    expect(parser.validator(interaction, '123')).toBe(true);
+    expect(parser.transformer('42', interaction)[0]).toBe('42');
+  });
+});
+
+describe('url', () => {
+  it('only allows http and https by default', () => {
+    const parser = url();
+    expect(parser.transformer('https://example.com/a', interaction).href).toBe(
+      'https://example.com/a'
+    );
+    expect(parser.validator(interaction, 'ftp://example.com')).toBe(
+      "`ftp://example.com` isn't a valid link."
+    );
+    expect(parser.validator(interaction, 'example')).not.toBe(true);
+  });
+
+  it('accepts other protocols', () => {
+    expect(
+      url({ protocols: ['ftp:'] }).validator(interaction, 'ftp://example.com')
+    ).toBe(true);
+  });
+});
+
+describe('hexColor', () => {
+  it('expands short colors', () => {
+    expect(hexColor().transformer('#f80', interaction)).toBe(0xff8800);
+    expect(hexColor().transformer('FF8800', interaction)).toBe(0xff8800);
+  });
+});
+
+describe('date', () => {
+  it('parses ISO dates and Discord timestamps', () => {
+    const parser = date();
+    expect(parser.transformer('2024-05-01', interaction).toISOString()).toBe(
+      '2024-05-01T00:00:00.000Z'
+    );
+    expect(parser.transformer('<t:1714564800:R>', interaction).getTime()).toBe(
+      1714564800000
+    );
+    expect(parser.validator(interaction, 'tomorrow')).not.toBe(true);
+  });
+
+  it('checks the limits', () => {
+    const parser = date({ min: new Date('2024-01-01T00:00:00Z') });
+    expect(parser.validator(interaction, '2023-12-31')).toBe(
+      'The date must be on or after 2024-01-01T00:00:00.000Z.'
+    );
+  });
+});
+
+describe('emoji', () => {
+  const parser = emoji();
+
+  it.each(['👍', '👩‍💻', '👍🏽', '🇫🇷', '1️⃣'])('accepts %s', (value) => {
+    expect(parser.transformer(value, interaction)).toEqual({
+      id: null,
+      name: value,
+      animated: false,
+    });
+  });
+
+  it('accepts custom emoji', () => {
+    expect(
+      parser.transformer('<a:party:123456789012345678>', interaction)
+    ).toEqual({ id: '123456789012345678', name: 'party', animated: true });
+  });
+
+  it('rejects text', () => {
+    expect(parser.validator(interaction, 'smile')).toBe(
+      "`smile` isn't an emoji."
+    );
+  });
+});
@@ -0,0 +1,36 @@
+import { parseArgs } from '../src/cli';
+
+describe('parseArgs', () => {
+  it('separates positionals from flags', () => {
+    expect(
+      parseArgs(['delete', 'ping', '--guild', '123', 'echo', '--dry-run'])
+    ).toEqual({
+      positionals: ['delete', 'ping', 'echo'],
+      flags: { guild: '123', 'dry-run': true },
+    });
+  });
+
+  it('reads inline values', () => {
+    expect(parseArgs(['--token=a=b', '--all=false'])).toEqual({
+      positionals: [],
+      flags: { token: 'a=b', all: false },
+    });
+  });
+
+  it("doesn't give boolean flags the next argument", () => {
+    expect(parseArgs(['--all', 'ping']).positionals).toEqual(['ping']);
+  });
+
+  it("doesn't take the next flag as a value", () => {
+    expect(parseArgs(['--guild', '--dry-run']).flags).toEqual({
+      guild: true,
+      'dry-run': true,
+    });
+  });
+
+  it('rejects boolean flags that are not true or false', () => {
+    expect(() => parseArgs(['--dry-run=yes'])).toThrow(
+      '--dry-run must be true or false'
+    );
+  });
+});
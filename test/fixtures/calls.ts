@@ -0,0 +1,26 @@
+import type { CommandRunFunction, Middleware, Precondition } from '../../src';
+
+/**
+ * The order the fixtures' preconditions, middleware and commands ran in
+ */
+export const calls: string[] = [];
+
+/**
+ * The names of the preconditions that should fail
+ */
+export const failing = new Set<string>();
+
+export function record(name: string): Precondition {
+  return () => {
+    calls.push(name);
+    return failing.has(name) ? { reason: 'custom', message: name } : undefined;
+  };
+}
+
+export function wrap(name: string): Middleware<CommandRunFunction<[]>> {
+  return async (_interaction, _client, _options, next) => {
+    calls.push(`${name} before`);
+    await next();
+    calls.push(`${name} after`);
+  };
+}
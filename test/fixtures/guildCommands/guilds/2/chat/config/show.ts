@@ -0,0 +1,6 @@
+import { SlashCommand } from '../../../../../../../src';
+
+export default new SlashCommand(
+  { name: 'show', description: 'Shows the settings', options: [] },
+  { run: (interaction) => interaction.reply('guild 2') }
+);
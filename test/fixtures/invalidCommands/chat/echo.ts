@@ -0,0 +1,6 @@
+import { SlashCommand } from '../../../../src';
+
+export default new SlashCommand(
+  { name: 'echo', description: 'x'.repeat(101), options: [] },
+  { run: () => undefined }
+);
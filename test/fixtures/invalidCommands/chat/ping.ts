@@ -0,0 +1,6 @@
+import { SlashCommand } from '../../../../src';
+
+export default new SlashCommand(
+  { name: 'ping', description: 'Checks if the bot is alive', options: [] },
+  { run: () => undefined }
+);
@@ -0,0 +1,4 @@
+import { record } from '../../../calls';
+
+export const description = 'Admin commands';
+export const preconditions = [record('admin')];
@@ -0,0 +1,3 @@
+import { wrap } from '../../../calls';
+
+export default wrap('admin');
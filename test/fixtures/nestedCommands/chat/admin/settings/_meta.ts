@@ -0,0 +1,4 @@
+import { record } from '../../../../calls';
+
+export const description = 'Settings';
+export const preconditions = [record('settings')];
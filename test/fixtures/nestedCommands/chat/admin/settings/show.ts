@@ -0,0 +1,18 @@
+import { SlashCommand } from '../../../../../../src';
+import { calls, record, wrap } from '../../../../calls';
+
+export default new SlashCommand(
+  {
+    name: 'show',
+    description: 'Shows the settings',
+    options: [],
+    preconditions: [record('show')],
+    middleware: [wrap('show')],
+  },
+  {
+    run: (interaction) => {
+      calls.push('run');
+      return interaction.reply('shown');
+    },
+  }
+);